@@ -0,0 +1,88 @@
+// Service worker: keeps every game playable without a network.
+// What gets precached is listed by /api/precache (pages, the Next.js build, fonts, icons and narration).
+// Progress writes made offline are queued by the page itself (src/lib/offline/queue.ts).
+
+const PRECACHE_PREFIX = 'kids-games-precache-'
+const RUNTIME_CACHE = 'kids-games-runtime'
+// Stored last, so a precache interrupted halfway is filled again next time
+const COMPLETE_MARKER = '/__precache-complete'
+
+async function refreshPrecache() {
+  const response = await fetch('/api/precache', { cache: 'no-store' })
+  const { version, urls } = await response.json()
+  const name = PRECACHE_PREFIX + version
+  const cache = await caches.open(name)
+
+  if (!(await cache.match(COMPLETE_MARKER))) {
+    // One missing file shouldn't keep the rest from being cached
+    await Promise.all(urls.map(url =>
+      cache.add(new Request(url, { cache: 'reload' }))
+        .catch(error => console.error(`Could not precache ${url}:`, error))
+    ))
+    await cache.put(COMPLETE_MARKER, new Response(version))
+  }
+
+  const names = await caches.keys()
+  await Promise.all(names
+    .filter(other => other.startsWith(PRECACHE_PREFIX) && other !== name)
+    .map(other => caches.delete(other)))
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(refreshPrecache().then(() => self.skipWaiting()))
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+// The page asks for a refresh on every load while online, so a new build gets cached
+// even though this file doesn't change
+self.addEventListener('message', (event) => {
+  if (event.data === 'refresh-precache') {
+    event.waitUntil(refreshPrecache().catch(error => console.error('Could not refresh the precache:', error)))
+  }
+})
+
+async function putInRuntimeCache(request, response) {
+  if (!response.ok) return
+  const cache = await caches.open(RUNTIME_CACHE)
+  await cache.put(request, response)
+}
+
+// Pages and API reads: fresh when online, the last copy when offline
+async function networkFirst(request, fallbackUrl) {
+  try {
+    const response = await fetch(request)
+    void putInRuntimeCache(request, response.clone())
+    return response
+  } catch (error) {
+    const cached = await caches.match(request) ?? (fallbackUrl && await caches.match(fallbackUrl))
+    if (cached) return cached
+    throw error
+  }
+}
+
+// Build files are content-hashed and audio never changes, so a cached copy is always right
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  void putInRuntimeCache(request, response.clone())
+  return response
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  // Writes go through the page's offline queue; other origins are left alone
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/'))
+  } else if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/audio/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(cacheFirst(request))
+  } else if (url.pathname !== '/api/precache') {
+    event.respondWith(networkFirst(request))
+  }
+})
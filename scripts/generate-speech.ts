@@ -0,0 +1,97 @@
+// Pre-renders the narration to public/audio/speech with the TTS skill (skills/TTS).
+// Run `bun run speech:generate` after changing messages or vocabulary; existing files are kept
+// unless --force is passed, so only new texts reach the TTS service.
+// The SDK is called directly: skills/TTS/tts.ts is an example that renders "Hello, world!" as soon as it
+// is loaded and exports nothing, so there is no helper to import.
+import ZAI from 'z-ai-web-dev-sdk'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { LOCALES, type Locale } from '../src/i18n/config'
+import { loadContentPacks, mergeContentPacks } from '../src/lib/content/loader'
+import { NARRATED_MESSAGES, SPEECH_DIR, speechFileName, speechText, type SpeechManifest } from '../src/lib/speech/catalog'
+
+const OUT_DIR = path.join(process.cwd(), 'public', SPEECH_DIR)
+
+// A little slower than normal for young listeners
+const SPEED = 0.9
+
+// Voices of the TTS skill (skills/TTS/SKILL.md). None is documented for Portuguese or Spanish, so those
+// get the one described as clear and standard; English gets the English-accented one.
+const VOICES: Record<Locale, string> = {
+  'pt-BR': 'kazi',
+  en: 'jam',
+  es: 'kazi'
+}
+
+type Messages = { [key: string]: string | Messages }
+
+const lookup = (messages: Messages, key: string) =>
+  key.split('.').reduce<string | Messages | undefined>(
+    (node, part) => (typeof node === 'object' ? node[part] : undefined),
+    messages
+  )
+
+async function textsFor(locale: Locale, packs: Awaited<ReturnType<typeof loadContentPacks>>) {
+  const messages: Messages = JSON.parse(await fs.readFile(path.join(process.cwd(), 'messages', `${locale}.json`), 'utf8'))
+  const games = Object.keys(messages.games as Messages).map(id => `games.${id}.title`)
+
+  const texts = [...games, ...NARRATED_MESSAGES].map(key => {
+    const value = lookup(messages, key)
+    if (typeof value !== 'string') throw new Error(`Missing message ${key} in ${locale}`)
+    return value
+  })
+  texts.push(...mergeContentPacks(packs, locale).findPair.map(pair => pair.word))
+
+  return Array.from(new Set(texts.map(speechText).filter(Boolean)))
+}
+
+const exists = (file: string) => fs.access(file).then(() => true, () => false)
+
+async function main() {
+  const force = process.argv.includes('--force')
+  const zai = await ZAI.create()
+  const packs = await loadContentPacks()
+  const manifest: SpeechManifest = {}
+  let rendered = 0
+  let failed = 0
+
+  for (const locale of LOCALES) {
+    const dir = path.join(OUT_DIR, locale)
+    await fs.mkdir(dir, { recursive: true })
+    manifest[locale] = {}
+
+    for (const text of await textsFor(locale, packs)) {
+      const file = speechFileName(text)
+      const target = path.join(dir, file)
+
+      if (force || !(await exists(target))) {
+        try {
+          const response = await zai.audio.tts.create({
+            input: text,
+            voice: VOICES[locale],
+            speed: SPEED,
+            response_format: 'mp3',
+            stream: false
+          })
+          await fs.writeFile(target, Buffer.from(new Uint8Array(await response.arrayBuffer())))
+          rendered++
+          console.log(`[${locale}] ${text} -> ${file}`)
+        } catch (error: any) {
+          failed++
+          console.error(`[${locale}] TTS failed for "${text}":`, error?.message || error)
+          continue
+        }
+      }
+      manifest[locale][text] = file
+    }
+  }
+
+  await fs.writeFile(path.join(OUT_DIR, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n')
+  console.log(`Narration ready: ${rendered} new file(s), ${failed} failure(s)`)
+  if (failed > 0) process.exitCode = 1
+}
+
+main().catch(error => {
+  console.error('Narration generation failed:', error?.message || error)
+  process.exitCode = 1
+})
@@ -0,0 +1,72 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { NextResponse } from 'next/server'
+import { hashString } from '@/lib/rng'
+import { SPEECH_DIR, SPEECH_MANIFEST_URL, type SpeechManifest } from '@/lib/speech/catalog'
+
+// Pages and static files the service worker needs for every game to work offline
+const PAGES = ['/', '/parents']
+const STATIC_FILES = [
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/apple-touch-icon.png'
+]
+
+// Recursively lists the files under dir, relative to it with forward slashes
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true })
+  const files = await Promise.all(entries.map(async (entry) => {
+    if (entry.isDirectory()) {
+      return (await listFiles(path.join(dir, entry.name))).map(file => `${entry.name}/${file}`)
+    }
+    return [entry.name]
+  }))
+  return files.flat()
+}
+
+// Built JS, CSS and fonts (next/font serves Google fonts from /_next/static/media)
+async function buildFiles() {
+  try {
+    const files = await listFiles(path.join(process.cwd(), '.next', 'static'))
+    return files.map(file => `/_next/static/${file}`)
+  } catch (error) {
+    console.error('Could not list the Next.js build:', error)
+    return []
+  }
+}
+
+// Pre-rendered narration; missing until `bun run speech:generate` has been run
+async function speechFiles() {
+  try {
+    const raw = await fs.readFile(path.join(process.cwd(), 'public', SPEECH_DIR, 'manifest.json'), 'utf8')
+    const manifest: SpeechManifest = JSON.parse(raw)
+    const files = Object.entries(manifest).flatMap(([locale, texts]) =>
+      Array.from(new Set(Object.values(texts))).map(file => `/${SPEECH_DIR}/${locale}/${file}`)
+    )
+    return [SPEECH_MANIFEST_URL, ...files]
+  } catch {
+    return []
+  }
+}
+
+async function buildId() {
+  try {
+    return (await fs.readFile(path.join(process.cwd(), '.next', 'BUILD_ID'), 'utf8')).trim()
+  } catch {
+    return 'dev'
+  }
+}
+
+// Everything the service worker precaches. The version changes whenever the list does (a new build
+// or new narration), which makes the service worker replace its cache.
+export async function GET() {
+  const [id, build, speech] = await Promise.all([buildId(), buildFiles(), speechFiles()])
+  const urls = [...PAGES, ...STATIC_FILES, ...build, ...speech]
+
+  return NextResponse.json(
+    { version: `${id}-${hashString(urls.join('\n')).toString(36)}`, urls },
+    { headers: { 'Cache-Control': 'no-store' } }
+  )
+}
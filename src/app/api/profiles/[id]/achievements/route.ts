@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { notFound, parseBody } from '@/lib/api'
+import { db } from '@/lib/db'
+import { unlockAchievementSchema, type AchievementProgress } from '@/lib/achievements/schema'
+import { buildAchievementStats } from '@/lib/achievements/stats'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Totals achievements are checked against, and the badges already earned.
+// `?tzOffset=` (minutes, as from Date.getTimezoneOffset) places play days in the child's time zone.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const { searchParams } = new URL(request.url)
+  const tzOffset = Number(searchParams.get('tzOffset')) || 0
+
+  const [sessions, achievements] = await Promise.all([
+    db.gameSession.findMany({
+      where: { profileId: id },
+      select: {
+        gameId: true,
+        startedAt: true,
+        completed: true,
+        levels: { select: { boardLevel: true, stars: true } },
+        _count: { select: { attempts: { where: { result: 'correct' } } } }
+      }
+    }),
+    db.achievement.findMany({ where: { profileId: id } })
+  ])
+
+  const progress: AchievementProgress = {
+    stats: buildAchievementStats(
+      sessions.map(session => ({ ...session, correctAnswers: session._count.attempts })),
+      tzOffset
+    ),
+    unlocked: Object.fromEntries(achievements.map(row => [row.achievementId, row.unlockedAt.toISOString()]))
+  }
+
+  return NextResponse.json(progress)
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const { data, error } = await parseBody(request, unlockAchievementSchema)
+  if (error) return error
+
+  const profile = await db.childProfile.findUnique({ where: { id } })
+  if (!profile) return notFound('Profile')
+
+  // Unlocking twice (e.g. a queued write sent again) keeps the first date
+  const achievement = await db.achievement.upsert({
+    where: { profileId_achievementId: { profileId: id, achievementId: data.achievementId } },
+    create: { profileId: id, achievementId: data.achievementId, unlockedAt: new Date(data.unlockedAt) },
+    update: {}
+  })
+
+  return NextResponse.json({ achievement }, { status: 201 })
+}
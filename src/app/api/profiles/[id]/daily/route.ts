@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { notFound, parseBody } from '@/lib/api'
+import { db } from '@/lib/db'
+import { completeDailySchema } from '@/lib/daily/schema'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Days the profile finished the daily challenge, oldest first
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const rows = await db.dailyChallenge.findMany({
+    where: { profileId: id },
+    select: { day: true },
+    orderBy: { day: 'asc' }
+  })
+  return NextResponse.json({ days: rows.map(row => row.day) })
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const { data, error } = await parseBody(request, completeDailySchema)
+  if (error) return error
+
+  const profile = await db.childProfile.findUnique({ where: { id } })
+  if (!profile) return notFound('Profile')
+
+  // Finishing the same day twice (e.g. a queued write sent again) keeps the first one
+  const completion = await db.dailyChallenge.upsert({
+    where: { profileId_day: { profileId: id, day: data.day } },
+    create: { profileId: id, day: data.day },
+    update: {}
+  })
+
+  return NextResponse.json({ completion }, { status: 201 })
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { notFound, parseBody } from '@/lib/api'
+import { db } from '@/lib/db'
+import { saveDifficultySchema, type ProfileDifficulty } from '@/lib/adaptive/schema'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Current adaptive difficulty of each game the profile played
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const rows = await db.gameDifficulty.findMany({ where: { profileId: id } })
+
+  const difficulty: ProfileDifficulty = Object.fromEntries(
+    rows.map(row => [row.gameId, { level: row.level, pace: row.pace }])
+  )
+  return NextResponse.json({ difficulty })
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const { data, error } = await parseBody(request, saveDifficultySchema)
+  if (error) return error
+
+  const profile = await db.childProfile.findUnique({ where: { id } })
+  if (!profile) return notFound('Profile')
+
+  const { gameId, level, pace } = data
+  const difficulty = await db.gameDifficulty.upsert({
+    where: { profileId_gameId: { profileId: id, gameId } },
+    create: { profileId: id, gameId, level, pace },
+    update: { level, pace }
+  })
+
+  return NextResponse.json({ difficulty })
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import type { ProfileProgress } from '@/lib/profiles/schema'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Best score, highest finished level and best stars per game. Daily challenge levels are played out
+// of order, so they are left out.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const sessions = { profileId: id, daily: false }
+
+  const [scores, levels] = await Promise.all([
+    db.gameSession.groupBy({
+      by: ['gameId'],
+      where: sessions,
+      _max: { score: true }
+    }),
+    db.levelResult.findMany({
+      where: { session: sessions },
+      select: { level: true, stars: true, session: { select: { gameId: true } } }
+    })
+  ])
+
+  const progress: ProfileProgress = {}
+  for (const row of scores) {
+    progress[row.gameId] = { bestScore: row._max.score ?? 0, levelsCompleted: 0, stars: 0 }
+  }
+
+  // Game -> level -> best stars
+  const bestStars: Record<string, Record<number, number>> = {}
+  for (const row of levels) {
+    const gameId = row.session.gameId
+    const entry = progress[gameId] ??= { bestScore: 0, levelsCompleted: 0, stars: 0 }
+    entry.levelsCompleted = Math.max(entry.levelsCompleted, row.level)
+    const perLevel = bestStars[gameId] ??= {}
+    perLevel[row.level] = Math.max(perLevel[row.level] ?? 0, row.stars)
+  }
+  for (const [gameId, perLevel] of Object.entries(bestStars)) {
+    progress[gameId].stars = Object.values(perLevel).reduce((sum, stars) => sum + stars, 0)
+  }
+
+  return NextResponse.json({ progress })
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { notFound, parseBody } from '@/lib/api'
+import { db } from '@/lib/db'
+import { parseProfileSettings, toChildProfile, updateProfileSchema } from '@/lib/profiles/schema'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const { data, error } = await parseBody(request, updateProfileSchema)
+  if (error) return error
+
+  const existing = await db.childProfile.findUnique({ where: { id } })
+  if (!existing) return notFound('Profile')
+
+  const { settings, ...fields } = data
+  const row = await db.childProfile.update({
+    where: { id },
+    data: {
+      ...fields,
+      ...(settings ? { settings: JSON.stringify({ ...parseProfileSettings(existing.settings), ...settings }) } : {})
+    }
+  })
+
+  return NextResponse.json({ profile: toChildProfile(row) })
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const existing = await db.childProfile.findUnique({ where: { id } })
+  if (!existing) return notFound('Profile')
+
+  await db.childProfile.delete({ where: { id } })
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { notFound, parseBody } from '@/lib/api'
+import { db } from '@/lib/db'
+import { completeTutorialSchema, type CompletedTutorials } from '@/lib/tutorials/schema'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Games whose tutorial the profile has finished
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const rows = await db.tutorialCompletion.findMany({ where: { profileId: id } })
+
+  const completed: CompletedTutorials = Object.fromEntries(
+    rows.map(row => [row.gameId, row.completedAt.toISOString()])
+  )
+  return NextResponse.json({ completed })
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const { data, error } = await parseBody(request, completeTutorialSchema)
+  if (error) return error
+
+  const profile = await db.childProfile.findUnique({ where: { id } })
+  if (!profile) return notFound('Profile')
+
+  // Finishing it again (e.g. watched from the menu) keeps the first date
+  const tutorial = await db.tutorialCompletion.upsert({
+    where: { profileId_gameId: { profileId: id, gameId: data.gameId } },
+    create: { profileId: id, gameId: data.gameId, completedAt: new Date(data.completedAt) },
+    update: {}
+  })
+
+  return NextResponse.json({ tutorial }, { status: 201 })
+}
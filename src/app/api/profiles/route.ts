@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { parseBody } from '@/lib/api'
+import { db } from '@/lib/db'
+import { createProfileSchema, toChildProfile } from '@/lib/profiles/schema'
+
+export async function GET() {
+  const rows = await db.childProfile.findMany({ orderBy: { createdAt: 'asc' } })
+  return NextResponse.json({ profiles: rows.map(toChildProfile) })
+}
+
+export async function POST(request: Request) {
+  const { data, error } = await parseBody(request, createProfileSchema)
+  if (error) return error
+
+  const row = await db.childProfile.create({ data })
+  return NextResponse.json({ profile: toChildProfile(row) }, { status: 201 })
+}
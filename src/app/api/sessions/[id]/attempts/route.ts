@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { notFound, parseBody } from '@/lib/api'
+import { db } from '@/lib/db'
+import { attemptSchema } from '@/lib/progress/schema'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Records one action of the session (an answer when it has a result)
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const { data, error } = await parseBody(request, attemptSchema)
+  if (error) return error
+
+  const session = await db.gameSession.findUnique({ where: { id } })
+  if (!session) return notFound('Session')
+
+  const attempt = await db.attempt.create({
+    data: {
+      sessionId: id,
+      level: data.level,
+      action: JSON.stringify(data.action ?? null),
+      result: data.result ?? null,
+      item: data.item ?? null,
+      points: data.points,
+      boardLevel: data.boardLevel ?? null,
+      elapsedMs: data.elapsedMs
+    }
+  })
+
+  return NextResponse.json({ attempt }, { status: 201 })
+}
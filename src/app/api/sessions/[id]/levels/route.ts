@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { notFound, parseBody } from '@/lib/api'
+import { db } from '@/lib/db'
+import { levelResultSchema } from '@/lib/progress/schema'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Stores the result of a finished level and moves the session's progress forward
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const { data, error } = await parseBody(request, levelResultSchema)
+  if (error) return error
+
+  const session = await db.gameSession.findUnique({ where: { id } })
+  if (!session) return notFound('Session')
+
+  const { level, ...result } = data
+  const [levelResult] = await db.$transaction([
+    db.levelResult.upsert({
+      where: { sessionId_level: { sessionId: id, level } },
+      create: { sessionId: id, level, ...result },
+      update: result
+    }),
+    db.gameSession.update({
+      where: { id },
+      data: { levelReached: Math.max(session.levelReached, level) }
+    })
+  ])
+
+  return NextResponse.json({ levelResult }, { status: 201 })
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { notFound, parseBody } from '@/lib/api'
+import { db } from '@/lib/db'
+import { updateSessionSchema } from '@/lib/progress/schema'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const session = await db.gameSession.findUnique({
+    where: { id },
+    include: {
+      levels: { orderBy: { level: 'asc' } },
+      attempts: { orderBy: { createdAt: 'asc' } }
+    }
+  })
+  if (!session) return notFound('Session')
+
+  return NextResponse.json({ session })
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const { data, error } = await parseBody(request, updateSessionSchema)
+  if (error) return error
+
+  const existing = await db.gameSession.findUnique({ where: { id } })
+  if (!existing) return notFound('Session')
+
+  const session = await db.gameSession.update({
+    where: { id },
+    data: {
+      score: data.score,
+      levelReached: data.levelReached,
+      completed: data.completed,
+      endedAt: data.ended ? new Date(data.endedAt ?? Date.now()) : undefined
+    }
+  })
+
+  return NextResponse.json({ session })
+}
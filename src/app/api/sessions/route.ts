@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { notFound, parseBody } from '@/lib/api'
+import { db } from '@/lib/db'
+import { createSessionSchema } from '@/lib/progress/schema'
+
+// Lists sessions with their level results, newest first
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profileId')
+  const gameId = searchParams.get('gameId')
+
+  const sessions = await db.gameSession.findMany({
+    where: {
+      ...(profileId ? { profileId } : {}),
+      ...(gameId ? { gameId } : {})
+    },
+    include: { levels: { orderBy: { level: 'asc' } } },
+    orderBy: { startedAt: 'desc' },
+    take: 100
+  })
+
+  return NextResponse.json({ sessions })
+}
+
+export async function POST(request: Request) {
+  const { data, error } = await parseBody(request, createSessionSchema)
+  if (error) return error
+
+  // A queued create may be sent twice if the connection dropped before the response arrived
+  if (data.id) {
+    const existing = await db.gameSession.findUnique({ where: { id: data.id } })
+    if (existing) return NextResponse.json({ session: existing })
+  }
+
+  // The profile may have been deleted on another device while this session was queued
+  if (data.profileId) {
+    const profile = await db.childProfile.findUnique({ where: { id: data.profileId } })
+    if (!profile) return notFound('Profile')
+  }
+
+  const session = await db.gameSession.create({
+    data: {
+      id: data.id,
+      gameId: data.gameId,
+      seed: data.seed,
+      profileId: data.profileId ?? null,
+      feedbackScale: data.feedbackScale,
+      daily: data.daily,
+      startedAt: data.startedAt ? new Date(data.startedAt) : undefined
+    }
+  })
+
+  return NextResponse.json({ session }, { status: 201 })
+}
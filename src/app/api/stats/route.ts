@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { buildDashboardStats } from '@/lib/stats/dashboard'
+
+const DEFAULT_DAYS = 30
+
+// Dashboard figures for the last `days` days, for one profile or for everyone.
+// `?tzOffset=` (minutes, as from Date.getTimezoneOffset) groups them by the parent's days.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const profileId = searchParams.get('profileId')
+  const days = Math.min(Math.max(Number(searchParams.get('days')) || DEFAULT_DAYS, 1), 365)
+  const tzOffset = Number(searchParams.get('tzOffset')) || 0
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+  const where = {
+    startedAt: { gte: since },
+    ...(profileId ? { profileId } : {})
+  }
+
+  const [sessions, missed] = await Promise.all([
+    db.gameSession.findMany({
+      where,
+      select: {
+        gameId: true,
+        levelReached: true,
+        startedAt: true,
+        endedAt: true,
+        levels: { select: { attempts: true, mistakes: true, durationMs: true, assists: true } }
+      },
+      orderBy: { startedAt: 'asc' }
+    }),
+    db.attempt.findMany({
+      where: { result: 'wrong', item: { not: null }, session: where },
+      select: { item: true, session: { select: { gameId: true } } }
+    })
+  ])
+
+  const stats = buildDashboardStats(
+    sessions,
+    missed.map(attempt => ({
+      gameId: attempt.session.gameId,
+      item: attempt.item
+    })),
+    tzOffset
+  )
+
+  return NextResponse.json({ stats })
+}
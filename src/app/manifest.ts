@@ -0,0 +1,27 @@
+import type { MetadataRoute } from 'next'
+import { getLocale, getTranslations } from 'next-intl/server'
+
+// Web app manifest, so the games can be installed and opened like an app (see public/sw.js for offline use)
+export default async function manifest(): Promise<MetadataRoute.Manifest> {
+  const locale = await getLocale()
+  const t = await getTranslations('metadata')
+
+  return {
+    name: t('title'),
+    short_name: t('title'),
+    description: t('description'),
+    lang: locale,
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'any',
+    background_color: '#c084fc',
+    theme_color: '#a855f7',
+    icons: [
+      { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+      { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml' }
+    ]
+  }
+}
@@ -0,0 +1,5 @@
+import { ParentDashboard } from '@/components/parents/parent-dashboard'
+
+export default function ParentsPage() {
+  return <ParentDashboard />
+}
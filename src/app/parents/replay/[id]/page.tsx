@@ -0,0 +1,15 @@
+import { getLocale } from 'next-intl/server'
+import { ReplayViewer } from '@/components/parents/replay-viewer'
+import type { Locale } from '@/i18n/config'
+import { loadGameContent } from '@/lib/content/loader'
+
+interface ReplayPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function ReplayPage({ params }: ReplayPageProps) {
+  const { id } = await params
+  const locale = (await getLocale()) as Locale
+  const content = await loadGameContent(locale)
+  return <ReplayViewer sessionId={id} content={content} />
+}
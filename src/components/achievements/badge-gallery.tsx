@@ -0,0 +1,85 @@
+'use client'
+
+import { motion } from 'framer-motion'
+import { useFormatter, useTranslations } from 'next-intl'
+import { Home } from 'lucide-react'
+import { useSettings } from '@/components/settings/settings-provider'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { ACHIEVEMENTS } from '@/lib/achievements/catalog'
+import type { AchievementProgress } from '@/lib/achievements/schema'
+
+interface BadgeGalleryProps extends AchievementProgress {
+  onBack: () => void
+}
+
+// Every badge; locked ones are greyed out with how far the player is
+export function BadgeGallery({ stats, unlocked, onBack }: BadgeGalleryProps) {
+  const t = useTranslations('achievements')
+  const format = useFormatter()
+  const { timing } = useSettings()
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => unlocked[achievement.id]).length
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-400 via-pink-400 to-orange-300 flex flex-col">
+      <header className="p-6 text-center">
+        <div className="flex justify-start max-w-4xl mx-auto mb-2">
+          <Button onClick={onBack} variant="outline" size="lg" className="gap-2 bg-white/90">
+            <Home className="w-5 h-5" />
+            {t('back')}
+          </Button>
+        </div>
+        <div className="text-6xl mb-4">🏆</div>
+        <h1
+          className="text-4xl md:text-5xl font-bold text-white mb-2 drop-shadow-lg"
+          style={{ fontFamily: 'Comic Sans MS, cursive, sans-serif' }}
+        >
+          {t('title')}
+        </h1>
+        <p className="text-white text-lg drop-shadow">
+          {t('count', { count: unlockedCount, total: ACHIEVEMENTS.length })}
+        </p>
+      </header>
+
+      <main className="flex-1 px-4 pb-8">
+        <ul className="max-w-4xl mx-auto grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {ACHIEVEMENTS.map((achievement, index) => {
+            const unlockedAt = unlocked[achievement.id]
+            const { current, target } = achievement.progress(stats)
+
+            return (
+              <motion.li
+                key={achievement.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: timing.animation(index * 0.05) }}
+              >
+                <Card className={`p-4 h-full items-center text-center gap-2 shadow-xl ${unlockedAt ? 'bg-white/95' : 'bg-white/60'}`}>
+                  <span className={`text-5xl ${unlockedAt ? '' : 'grayscale opacity-50'}`} aria-hidden="true">
+                    {achievement.icon}
+                  </span>
+                  <h2 className="font-bold text-purple-600">{t(`items.${achievement.id}.title`)}</h2>
+                  <p className="text-sm text-gray-600">{t(`items.${achievement.id}.description`)}</p>
+                  {unlockedAt ? (
+                    <p className="text-xs text-gray-500 mt-auto">
+                      {t('unlockedOn', { date: format.dateTime(new Date(unlockedAt), { dateStyle: 'medium' }) })}
+                    </p>
+                  ) : (
+                    <div className="w-full mt-auto space-y-1">
+                      <Progress
+                        value={(current / target) * 100}
+                        aria-label={t('progress', { current, target })}
+                      />
+                      <p className="text-xs text-gray-500">{current}/{target}</p>
+                    </div>
+                  )}
+                </Card>
+              </motion.li>
+            )
+          })}
+        </ul>
+      </main>
+    </div>
+  )
+}
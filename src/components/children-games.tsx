@@ -0,0 +1,644 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from 'react'
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog'
+import { motion } from 'framer-motion'
+import { 
+  ArrowRight,
+  Award,
+  CalendarDays,
+  Flame,
+  GraduationCap,
+  Home, 
+  Lightbulb,
+  RotateCcw, 
+  Volume2, 
+  VolumeX, 
+  Star,
+  Brain,
+  Settings,
+  Trophy,
+  Users
+} from 'lucide-react'
+import { BadgeGallery } from '@/components/achievements/badge-gallery'
+import { DailyChallenge } from '@/components/daily/daily-challenge'
+import { GAME_MODULES, getGameModule } from '@/components/games/registry'
+import { SpokenText } from '@/components/games/spoken-text'
+import { StarRow } from '@/components/games/stars'
+import { LocaleSwitcher } from '@/components/locale-switcher'
+import { ProfilePicker } from '@/components/profiles/profile-picker'
+import { SettingsDialog } from '@/components/settings/settings-dialog'
+import { GameTutorial } from '@/components/tutorial/game-tutorial'
+import { getTiming, SettingsProvider } from '@/components/settings/settings-provider'
+import { useAchievements } from '@/hooks/use-achievements'
+import { useAdaptiveDifficulty } from '@/hooks/use-adaptive-difficulty'
+import { useDailyChallenge } from '@/hooks/use-daily-challenge'
+import { useGameSession } from '@/hooks/use-game-session'
+import { useProfiles } from '@/hooks/use-profiles'
+import { useTutorials } from '@/hooks/use-tutorials'
+import type { GameContent } from '@/lib/content/schema'
+import type { DailyStep } from '@/lib/daily/challenge'
+import { formatGameCode, parseGameCode } from '@/lib/rng'
+import type { ChildProfile } from '@/lib/profiles/schema'
+import { preloadSpeech } from '@/lib/speech/client'
+import { playSound, setSoundEnabled as applySoundEnabled } from '@/lib/sound'
+
+// Type definitions
+type Screen = 'profiles' | 'menu' | 'game' | 'badges' | 'daily' | 'tutorial'
+
+interface ChildrenGamesProps {
+  content: GameContent
+}
+
+export function ChildrenGames({ content }: ChildrenGamesProps) {
+  const t = useTranslations()
+  const [currentScreen, setCurrentScreen] = useState<Screen>('profiles')
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const {
+    profiles,
+    activeProfile,
+    settings,
+    progress,
+    loading: profilesLoading,
+    selectProfile,
+    saveProfile,
+    updateSettings,
+    refreshProgress
+  } = useProfiles()
+  const timing = getTiming(settings)
+  const nameOf = (symbol: string) => content.names[symbol] ?? symbol
+  const achievements = useAchievements(activeProfile?.id)
+  const daily = useDailyChallenge(activeProfile?.id)
+  const adaptive = useAdaptiveDifficulty(activeProfile?.id)
+  const tutorials = useTutorials(activeProfile?.id)
+  // Game whose tutorial is open
+  const [tutorialGameId, setTutorialGameId] = useState<string | null>(null)
+  // Step of the daily challenge being played, if the current game is one
+  const [dailyStep, setDailyStep] = useState<DailyStep | null>(null)
+  const playingDaily = dailyStep !== null
+  const {
+    game,
+    gameState,
+    board,
+    dispatch,
+    showHint,
+    hintAvailable,
+    startGame: startSession,
+    stopGame,
+    showLevelCompleteModal,
+    showWinModal,
+    levelStars,
+    setShowWinModal
+  } = useGameSession(content, timing, (event) => {
+    achievements.record(event)
+    if (playingDaily) daily.record(event)
+    // The daily challenge is the same for everyone, so it doesn't tune the boards
+    else if (settings.adaptiveDifficulty) adaptive.record(event)
+  })
+
+  // Start a game
+  const startGame = (gameId: string, seed?: number, startLevel?: number, boardLevels?: number[]) => {
+    playSound('click')
+    setDailyStep(null)
+    startSession(gameId, {
+      seed,
+      startLevel,
+      profileId: activeProfile?.id,
+      // A session reproduced from its code gets the original boards
+      difficulty: settings.adaptiveDifficulty && seed === undefined ? adaptive.difficultyFor : undefined,
+      boardLevels,
+      assist: settings.assistMode,
+      hintsPerLevel: settings.hintsPerLevel
+    })
+    setCurrentScreen('game')
+  }
+
+  const openTutorial = (gameId: string) => {
+    playSound('click')
+    setTutorialGameId(gameId)
+    setCurrentScreen('tutorial')
+  }
+
+  // The first time a game is played, its tutorial comes before level 1
+  const playFromMenu = (gameId: string) => {
+    if (!tutorials.completed[gameId] && !progress[gameId]) openTutorial(gameId)
+    else startGame(gameId)
+  }
+
+  const finishTutorial = () => {
+    if (!tutorialGameId) return
+    tutorials.complete(tutorialGameId)
+    startGame(tutorialGameId)
+  }
+
+  // Pick who is playing; their settings come along
+  const handleSelectProfile = (profile: ChildProfile) => {
+    selectProfile(profile)
+    playSound('click')
+    setCurrentScreen('menu')
+  }
+
+  const switchProfile = () => {
+    playSound('click')
+    selectProfile(null)
+    setCurrentScreen('profiles')
+  }
+
+  useEffect(preloadSpeech, [])
+
+  // Reproduce a reported session: /?game=simon&seed=<code shown in the game footer>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const gameId = params.get('game')
+    const code = parseGameCode(params.get('seed') ?? '')
+    if (gameId && code) startGame(gameId, code.seed, undefined, code.boardLevels)
+  }, [])
+
+  // Return to menu
+  const goToMenu = () => {
+    playSound('click')
+    setCurrentScreen(activeProfile ? 'menu' : 'profiles')
+    stopGame()
+    refreshProgress()
+  }
+
+  const openDaily = () => {
+    playSound('click')
+    setCurrentScreen('daily')
+  }
+
+  // Play a step of today's challenge: one level, built from the day's seed
+  const startDailyStep = (step: DailyStep) => {
+    playSound('click')
+    setDailyStep(step)
+    startSession(step.gameId, {
+      seed: step.seed,
+      startLevel: step.level,
+      lastLevel: step.level,
+      profileId: activeProfile?.id,
+      daily: true,
+      assist: settings.assistMode,
+      hintsPerLevel: settings.hintsPerLevel
+    })
+    setCurrentScreen('game')
+  }
+
+  const playDailyStep = () => {
+    if (daily.nextStep) {
+      startDailyStep(daily.nextStep)
+    } else {
+      setCurrentScreen('daily')
+      stopGame()
+    }
+  }
+
+  const openBadges = () => {
+    playSound('click')
+    setCurrentScreen('badges')
+  }
+
+  // Restart current game
+  const restartGame = () => {
+    if (dailyStep) {
+      startDailyStep(dailyStep)
+    } else if (gameState.type) {
+      startGame(gameState.type)
+    }
+  }
+
+  const handleToggleSound = () => {
+    const enabled = !settings.soundEnabled
+    // Applied right away so the click below is heard when sound is turned back on
+    applySoundEnabled(enabled)
+    updateSettings({ soundEnabled: enabled })
+    playSound('click')
+  }
+
+  // Every screen shares the settings context and the settings dialog
+  const withSettings = (screen: ReactNode) => (
+    <SettingsProvider settings={settings} onChange={updateSettings}>
+      {screen}
+      <SettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} profileName={activeProfile?.name} />
+    </SettingsProvider>
+  )
+
+  const settingsButton = (
+    <Button
+      onClick={() => setSettingsOpen(true)}
+      variant="outline"
+      size="lg"
+      aria-label={t('settings.open')}
+      className="bg-white/90"
+    >
+      <Settings className="w-5 h-5" />
+    </Button>
+  )
+
+  // PROFILE SCREEN
+  if (currentScreen === 'profiles') {
+    return withSettings(
+      <ProfilePicker
+        profiles={profiles}
+        loading={profilesLoading}
+        onSelect={handleSelectProfile}
+        onSave={saveProfile}
+      />
+    )
+  }
+
+  // MENU SCREEN
+  if (currentScreen === 'menu') {
+    return withSettings(
+      <div className="min-h-screen bg-gradient-to-br from-purple-400 via-pink-400 to-orange-300 flex flex-col">
+        {/* Header */}
+        <header className="p-6 text-center">
+          <div className="flex items-center justify-end gap-3 max-w-4xl mx-auto mb-2">
+            {activeProfile && (
+              <>
+                <span className="text-white text-lg font-bold drop-shadow">
+                  {activeProfile.avatar} {activeProfile.name}
+                </span>
+                <Button onClick={switchProfile} variant="outline" size="sm" className="gap-2 bg-white/90">
+                  <Users className="w-4 h-4" />
+                  {t('menu.switchProfile')}
+                </Button>
+              </>
+            )}
+            <Button onClick={openBadges} variant="outline" size="sm" className="gap-2 bg-white/90">
+              <Award className="w-4 h-4" />
+              {t('achievements.open')}
+            </Button>
+            <LocaleSwitcher />
+            {settingsButton}
+          </div>
+          <motion.div
+            initial={{ scale: 0 }}
+            animate={{ scale: 1 }}
+            transition={{ type: 'spring', duration: timing.animation(0.5) }}
+            className="text-6xl mb-4"
+          >
+            🎮
+          </motion.div>
+          <motion.h1
+            initial={{ y: -50, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: timing.animation(0.2) }}
+            className="text-4xl md:text-5xl font-bold text-white mb-2 drop-shadow-lg"
+            style={{ fontFamily: 'Comic Sans MS, cursive, sans-serif' }}
+          >
+            {t('menu.title')}
+          </motion.h1>
+          <motion.p
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: timing.animation(0.4) }}
+            className="text-white text-lg drop-shadow"
+          >
+            {t('menu.subtitle')}
+          </motion.p>
+        </header>
+
+        {/* Games Grid */}
+        <main className="flex-1 px-4 pb-8">
+          <motion.button
+            onClick={openDaily}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            transition={{ delay: timing.animation(0.5) }}
+            className="w-full max-w-4xl mx-auto mb-4 block text-left"
+          >
+            <Card className="p-4 bg-white/95 shadow-xl flex-row items-center gap-4">
+              <CalendarDays className="w-10 h-10 text-purple-600 shrink-0" />
+              <div className="flex-1">
+                <h2 className="text-xl font-bold text-purple-600">{t('daily.title')}</h2>
+                <p className="text-sm text-gray-600">
+                  {daily.finished ? t('daily.finished') : t('daily.progress', { done: daily.done, total: daily.steps.length })}
+                </p>
+              </div>
+              {daily.streak > 0 && (
+                <span className="flex items-center gap-1 font-bold text-orange-600">
+                  <Flame className="w-5 h-5" />
+                  {t('daily.streak', { count: daily.streak })}
+                </span>
+              )}
+            </Card>
+          </motion.button>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: timing.animation(0.5) }}
+            className="max-w-4xl mx-auto grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4"
+          >
+            {GAME_MODULES.map((gameModule) => {
+              const gameProgress = progress[gameModule.id]
+              const nextLevel = gameProgress
+                ? Math.min(gameProgress.levelsCompleted + 1, gameModule.maxLevel)
+                : 1
+
+              return (
+                <motion.div key={gameModule.id} whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                  <Card className="p-6 bg-white/95 backdrop-blur shadow-xl hover:shadow-2xl transition-shadow cursor-pointer">
+                    <div className="text-center">
+                      <div className="text-5xl mb-4">{gameModule.icon}</div>
+                      <h3 className={`text-xl font-bold mb-3 ${gameModule.theme.title}`}>
+                        <SpokenText text={t(`games.${gameModule.id}.title`)} />
+                      </h3>
+                      <p className="text-gray-600 text-sm mb-2">{t(`games.${gameModule.id}.tagline`)}</p>
+                      <p className={`text-xs font-semibold mb-4 ${gameModule.theme.accent}`}>{t(`games.${gameModule.id}.levels`)}</p>
+                      {gameProgress && gameProgress.bestScore > 0 && (
+                        <p className="flex items-center justify-center gap-1 text-sm text-gray-600 mb-3">
+                          <Trophy className="w-4 h-4 text-yellow-500" />
+                          {t('menu.bestScore', { score: gameProgress.bestScore })}
+                        </p>
+                      )}
+                      {gameProgress && gameProgress.stars > 0 && (
+                        <p
+                          className="flex items-center justify-center gap-1 text-sm text-gray-600 mb-3"
+                          aria-label={t('game.stars', { count: gameProgress.stars, max: gameModule.maxLevel * 3 })}
+                        >
+                          <Star className="w-4 h-4 fill-yellow-400 text-yellow-500" />
+                          {gameProgress.stars}/{gameModule.maxLevel * 3}
+                        </p>
+                      )}
+                      <Button
+                        onClick={() => playFromMenu(gameModule.id)}
+                        className={`w-full text-white text-lg py-6 ${gameModule.theme.button}`}
+                      >
+                        {t('menu.play')}
+                      </Button>
+                      {nextLevel > 1 && (
+                        <Button
+                          onClick={() => startGame(gameModule.id, undefined, nextLevel)}
+                          variant="outline"
+                          className="w-full mt-2"
+                        >
+                          {t('menu.continue', { level: nextLevel })}
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => openTutorial(gameModule.id)}
+                        variant="ghost"
+                        size="sm"
+                        className="w-full mt-2 gap-2"
+                      >
+                        <GraduationCap className="w-4 h-4" />
+                        {t('tutorial.open')}
+                      </Button>
+                    </div>
+                  </Card>
+                </motion.div>
+              )
+            })}
+          </motion.div>
+        </main>
+
+        {/* Footer */}
+        <footer className="p-4 text-center text-white/80 text-sm">
+          <p>{t('menu.footer')}</p>
+          <Link href="/parents" className="text-xs underline hover:text-white">
+            {t('menu.parents')}
+          </Link>
+        </footer>
+      </div>
+    )
+  }
+
+  // DAILY CHALLENGE SCREEN
+  if (currentScreen === 'daily') {
+    return withSettings(
+      <DailyChallenge
+        today={daily.today}
+        steps={daily.steps}
+        done={daily.done}
+        days={daily.days}
+        streak={daily.streak}
+        onPlay={playDailyStep}
+        onBack={goToMenu}
+      />
+    )
+  }
+
+  // TUTORIAL SCREEN
+  const tutorialGame = getGameModule(tutorialGameId)
+  if (currentScreen === 'tutorial' && tutorialGame) {
+    return withSettings(
+      <GameTutorial key={tutorialGame.id} game={tutorialGame} content={content} onFinish={finishTutorial} />
+    )
+  }
+
+  // BADGES SCREEN
+  if (currentScreen === 'badges') {
+    return withSettings(
+      <BadgeGallery stats={achievements.stats} unlocked={achievements.unlocked} onBack={goToMenu} />
+    )
+  }
+
+  // GAME SCREEN
+  if (currentScreen === 'game') {
+    return withSettings(
+      <div className="min-h-screen bg-gradient-to-br from-blue-400 via-purple-400 to-pink-300 flex flex-col">
+        {/* Game Header */}
+        <header className="p-4 bg-white/95 shadow-lg">
+          <div className="flex items-center justify-between max-w-4xl mx-auto">
+            <Button
+              onClick={goToMenu}
+              variant="outline"
+              size="lg"
+              className="gap-2"
+            >
+              <Home className="w-5 h-5" />
+              {t('common.menu')}
+            </Button>
+            
+            <div className="flex items-center gap-4">
+              <Badge variant="secondary" className="text-lg px-4 py-2 gap-2">
+                <Star className="w-5 h-5 text-yellow-500" />
+                {gameState.score}
+              </Badge>
+              <Badge variant="outline" className="text-lg px-4 py-2">
+                {t('common.level', { level: gameState.level, maxLevel: gameState.maxLevel })}
+              </Badge>
+              {game?.showAttempts && (
+                <Badge variant="outline" className="text-lg px-4 py-2 gap-2">
+                  <Brain className="w-5 h-5" />
+                  {gameState.attempts}
+                </Badge>
+              )}
+            </div>
+            
+            <div className="flex gap-2">
+              {game?.hint && settings.hintsPerLevel > 0 && (
+                <Button
+                  onClick={showHint}
+                  variant="outline"
+                  size="lg"
+                  className="gap-2"
+                  disabled={!hintAvailable}
+                  aria-label={t('common.hint', { count: gameState.hintsLeft })}
+                >
+                  <Lightbulb className="w-5 h-5 text-yellow-500" />
+                  {gameState.hintsLeft}
+                </Button>
+              )}
+              <Button
+                onClick={restartGame}
+                variant="outline"
+                size="lg"
+                className="gap-2"
+              >
+                <RotateCcw className="w-5 h-5" />
+                {t('common.restart')}
+              </Button>
+              <Button
+                onClick={handleToggleSound}
+                variant="outline"
+                size="lg"
+                aria-label={settings.soundEnabled ? t('common.soundOn') : t('common.soundOff')}
+                aria-pressed={settings.soundEnabled}
+              >
+                {settings.soundEnabled ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
+              </Button>
+              {settingsButton}
+            </div>
+          </div>
+        </header>
+
+        {/* Game Content */}
+        <main className="flex-1 p-4 overflow-auto">
+          <div className="max-w-4xl mx-auto h-full">
+            {!game && (
+              <div className="flex flex-col items-center justify-center h-full">
+                <div className="text-6xl mb-4">🎮</div>
+                <h2 className="text-2xl md:text-3xl font-bold text-white mb-4 drop-shadow-lg">
+                  {t('game.loadingTitle')}
+                </h2>
+                <p className="text-white text-lg drop-shadow">{t('game.loadingBody')}</p>
+              </div>
+            )}
+
+            {game && board !== null && game.render({
+              state: board,
+              level: gameState.level,
+              maxLevel: gameState.maxLevel,
+              dispatch,
+              nameOf,
+              pace: gameState.pace
+            })}
+          </div>
+        </main>
+
+        {/* Level Complete Modal: closes by itself when the next level starts */}
+        <Dialog open={showLevelCompleteModal}>
+          <DialogContent
+            showCloseButton={false}
+            onEscapeKeyDown={(e) => e.preventDefault()}
+            onInteractOutside={(e) => e.preventDefault()}
+            className="bg-white rounded-3xl p-8 max-w-md text-center shadow-2xl"
+          >
+            <motion.div
+              initial={{ scale: 0, rotate: -180 }}
+              animate={{ scale: 1, rotate: 0 }}
+              transition={{ type: 'spring', duration: timing.animation(0.5) }}
+            >
+              <div className="mb-4">
+                <StarRow stars={levelStars} animate className="w-14 h-14" />
+              </div>
+              <DialogTitle className="text-3xl font-bold text-purple-600 mb-2">{t('game.levelCompleteTitle')}</DialogTitle>
+              <DialogDescription className="text-base text-gray-600 mb-4">
+                {t('game.levelCompleteBody', { level: gameState.level })}
+              </DialogDescription>
+              <p className="text-sm text-gray-500">{t('game.nextLevel')}</p>
+            </motion.div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Win Modal */}
+        <Dialog open={showWinModal} onOpenChange={setShowWinModal}>
+          <DialogContent className="bg-white rounded-3xl p-8 max-w-md text-center shadow-2xl">
+            <motion.div
+              initial={{ scale: 0, rotate: -180 }}
+              animate={{ scale: 1, rotate: 0 }}
+              transition={{ type: 'spring', duration: timing.animation(0.5) }}
+            >
+              <motion.div
+                animate={{ scale: [1, 1.2, 1] }}
+                transition={{ duration: timing.animation(0.5), repeat: Infinity }}
+                className="text-8xl mb-4"
+                aria-hidden="true"
+              >
+                🏆
+              </motion.div>
+              <DialogTitle className="text-3xl font-bold text-purple-600 mb-2">
+                {playingDaily && daily.finished ? t('daily.completeTitle') : t('game.winTitle')}
+              </DialogTitle>
+              <DialogDescription className="text-base text-gray-600 mb-4">
+                {playingDaily
+                  ? daily.finished
+                    ? t('daily.completeBody', { count: daily.streak })
+                    : t('daily.progress', { done: daily.done, total: daily.steps.length })
+                  : t('game.winBody')}
+              </DialogDescription>
+              <div className="mb-4">
+                <StarRow stars={levelStars} animate />
+              </div>
+
+              <div className="bg-gradient-to-r from-yellow-100 to-orange-100 rounded-xl p-4 mb-6">
+                <p className="text-lg font-bold text-yellow-700">{t('game.finalScore')}</p>
+                <p className="text-4xl font-bold text-orange-600">{gameState.score}</p>
+                {gameState.attempts > 0 && (
+                  <p className="text-sm text-gray-600 mt-2">{t('game.attempts', { count: gameState.attempts })}</p>
+                )}
+              </div>
+
+              <div className="flex gap-3">
+                <Button
+                  onClick={goToMenu}
+                  variant="outline"
+                  size="lg"
+                  className="flex-1 gap-2"
+                >
+                  <Home className="w-5 h-5" />
+                  {t('common.menu')}
+                </Button>
+                {playingDaily ? (
+                  <Button
+                    onClick={playDailyStep}
+                    size="lg"
+                    className="flex-1 gap-2 bg-purple-500 hover:bg-purple-600"
+                  >
+                    {daily.finished ? <CalendarDays className="w-5 h-5" /> : <ArrowRight className="w-5 h-5" />}
+                    {daily.finished ? t('daily.title') : t('daily.next')}
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={restartGame}
+                    size="lg"
+                    className="flex-1 gap-2 bg-purple-500 hover:bg-purple-600"
+                  >
+                    <RotateCcw className="w-5 h-5" />
+                    {t('game.playAgain')}
+                  </Button>
+                )}
+              </div>
+            </motion.div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Footer */}
+        <footer className="p-4 text-center text-white/80 text-sm bg-white/20">
+          <p>{t('menu.footer')}</p>
+          <p className="text-xs mt-1">{t('game.seed', { seed: formatGameCode(gameState.seed, gameState.boardLevels) })}</p>
+        </footer>
+      </div>
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { motion } from 'framer-motion'
+import { useLocale, useTranslations } from 'next-intl'
+import { enUS, es, ptBR, type Locale as DateLocale } from 'date-fns/locale'
+import { Check, Flame, Home, Play } from 'lucide-react'
+import { getGameModule } from '@/components/games/registry'
+import { useSettings } from '@/components/settings/settings-provider'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Card } from '@/components/ui/card'
+import type { DailyStep } from '@/lib/daily/challenge'
+import type { Locale } from '@/i18n/config'
+
+// Month and weekday names of the calendar
+const DATE_LOCALES: Record<Locale, DateLocale> = { 'pt-BR': ptBR, en: enUS, es }
+
+// YYYY-MM-DD as a local date, for the calendar
+const toDate = (day: string) => new Date(`${day}T00:00:00`)
+
+interface DailyChallengeProps {
+  today: string
+  steps: DailyStep[]
+  // Steps finished today
+  done: number
+  // Days the whole challenge was finished
+  days: string[]
+  streak: number
+  onPlay: () => void
+  onBack: () => void
+}
+
+// Today's playlist and the calendar of days it was finished
+export function DailyChallenge({ today, steps, done, days, streak, onPlay, onBack }: DailyChallengeProps) {
+  const t = useTranslations()
+  const locale = useLocale() as Locale
+  const { timing } = useSettings()
+  const finished = done >= steps.length
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-400 via-pink-400 to-orange-300 flex flex-col">
+      <header className="p-6 text-center">
+        <div className="flex justify-start max-w-4xl mx-auto mb-2">
+          <Button onClick={onBack} variant="outline" size="lg" className="gap-2 bg-white/90">
+            <Home className="w-5 h-5" />
+            {t('common.menu')}
+          </Button>
+        </div>
+        <div className="text-6xl mb-4">📅</div>
+        <h1
+          className="text-4xl md:text-5xl font-bold text-white mb-2 drop-shadow-lg"
+          style={{ fontFamily: 'Comic Sans MS, cursive, sans-serif' }}
+        >
+          {t('daily.title')}
+        </h1>
+        <p className="text-white text-lg drop-shadow">{t('daily.subtitle')}</p>
+      </header>
+
+      <main className="flex-1 px-4 pb-8">
+        <div className="max-w-4xl mx-auto grid gap-4 md:grid-cols-2">
+          <Card className="p-6 bg-white/95 shadow-xl gap-4">
+            <h2 className="text-xl font-bold text-purple-600">{t('daily.today')}</h2>
+            <ol className="space-y-2">
+              {steps.map((step, index) => {
+                const game = getGameModule(step.gameId)
+                const stepDone = index < done
+                return (
+                  <motion.li
+                    key={index}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: timing.animation(index * 0.05) }}
+                    className={`flex items-center gap-3 rounded-xl p-3 ${
+                      index === done ? 'bg-purple-100 ring-2 ring-purple-400' : 'bg-gray-50'
+                    }`}
+                  >
+                    <span className="text-3xl" aria-hidden="true">{game?.icon}</span>
+                    <span className="flex-1">
+                      <span className="block font-semibold">{t(`games.${step.gameId}.title`)}</span>
+                      <span className="block text-sm text-gray-500">
+                        {t('common.level', { level: step.level, maxLevel: game?.maxLevel ?? step.level })}
+                      </span>
+                    </span>
+                    {stepDone && (
+                      <Check className="w-6 h-6 text-green-500" aria-label={t('daily.stepDone')} />
+                    )}
+                  </motion.li>
+                )
+              })}
+            </ol>
+            {finished ? (
+              <p className="text-center text-lg font-bold text-green-600">{t('daily.finished')}</p>
+            ) : (
+              <Button onClick={onPlay} size="lg" className="w-full gap-2 text-lg py-6 bg-purple-500 hover:bg-purple-600">
+                <Play className="w-5 h-5" />
+                {done > 0 ? t('daily.resume', { step: done + 1, total: steps.length }) : t('daily.start')}
+              </Button>
+            )}
+          </Card>
+
+          <Card className="p-6 bg-white/95 shadow-xl items-center gap-4">
+            <p className="flex items-center gap-2 text-xl font-bold text-orange-600">
+              <Flame className="w-6 h-6" />
+              {t('daily.streak', { count: streak })}
+            </p>
+            <Calendar
+              mode="multiple"
+              selected={days.map(toDate)}
+              locale={DATE_LOCALES[locale]}
+              defaultMonth={toDate(today)}
+              today={toDate(today)}
+              disabled={{ after: toDate(today) }}
+              aria-label={t('daily.calendar')}
+              className="rounded-xl"
+            />
+            <p className="text-sm text-gray-500">{t('daily.calendarHint')}</p>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
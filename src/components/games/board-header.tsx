@@ -0,0 +1,26 @@
+import { useTranslations } from 'next-intl'
+import { Badge } from '@/components/ui/badge'
+import { SpokenText } from './spoken-text'
+
+interface BoardHeaderProps {
+  gameId: string
+  level: number
+  maxLevel: number
+  detail?: string
+}
+
+// Title and level badge shown at the top of every game board
+export function BoardHeader({ gameId, level, maxLevel, detail }: BoardHeaderProps) {
+  const t = useTranslations()
+
+  return (
+    <>
+      <h2 className="text-2xl md:text-3xl font-bold text-white mb-4 drop-shadow-lg">
+        <SpokenText text={t(`games.${gameId}.title`)} />
+      </h2>
+      <Badge className="mb-4 text-lg px-4 py-2 bg-white/90">
+        {t('common.level', { level, maxLevel })}{detail ? ` • ${detail}` : ''}
+      </Badge>
+    </>
+  )
+}
@@ -0,0 +1,174 @@
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { Card } from '@/components/ui/card'
+import { FOCUS_RING_CLASS, useRovingFocus } from '@/hooks/use-roving-focus'
+import { generateDifferentForLevel, type DifferentGrid } from '@/lib/generators/different'
+import { BoardHeader } from './board-header'
+import { ratingFor } from './stars'
+import type { GameModule, GameRenderProps } from './types'
+
+export interface DifferentState {
+  challenges: DifferentGrid[]
+  index: number
+  feedback: 'correct' | 'wrong' | null
+  // Items of the current grid taken away after repeated mistakes
+  removed: number[]
+  // The different item flashes for a moment (hint)
+  flashing: boolean
+}
+
+export type DifferentAction = { type: 'pick'; index: number }
+
+// How long a hint flashes the different item
+const FLASH_MS = 1500
+
+function DifferentBoard({ state, level, maxLevel, dispatch, nameOf }: GameRenderProps<DifferentState, DifferentAction>) {
+  const t = useTranslations('games.different')
+  const tCommon = useTranslations('common')
+  const challenge = state.challenges[state.index]
+  const { getItemProps } = useRovingFocus({
+    count: challenge?.items.length ?? 0,
+    onActivate: (index) => dispatch({ type: 'pick', index }),
+    disabled: state.feedback !== null
+  })
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full">
+      <BoardHeader
+        gameId="different"
+        level={level}
+        maxLevel={maxLevel}
+        detail={tCommon('challenge', { number: state.index + 1 })}
+      />
+
+      {challenge && (
+        <>
+          <Card className="p-6 bg-white/95 mb-6 w-full max-w-lg">
+            <motion.div
+              key={state.index}
+              role="group"
+              aria-label={t('grid')}
+              className="grid justify-center gap-2 md:gap-3"
+              style={{ gridTemplateColumns: `repeat(${challenge.cols}, minmax(0, auto))` }}
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+            >
+              {challenge.items.map((item, index) => (
+                <motion.button
+                  key={index}
+                  {...getItemProps(index)}
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={() => dispatch({ type: 'pick', index })}
+                  disabled={state.feedback !== null || state.removed.includes(index)}
+                  aria-label={nameOf(item)}
+                  className={`
+                    flex items-center justify-center rounded-xl bg-gradient-to-br from-blue-100 to-purple-100
+                    ${challenge.cols > 4
+                      ? 'w-11 h-11 md:w-14 md:h-14 text-2xl md:text-3xl'
+                      : 'w-16 h-16 md:w-20 md:h-20 text-4xl md:text-5xl'}
+                    shadow-lg transition-all ${FOCUS_RING_CLASS}
+                    ${state.removed.includes(index)
+                      ? 'invisible'
+                      : state.feedback !== null && index === challenge.different
+                      ? 'ring-4 ring-green-500 bg-green-100'
+                      : state.flashing && index === challenge.different
+                      ? 'ring-4 ring-yellow-400 animate-pulse'
+                      : state.feedback === 'wrong'
+                      ? 'opacity-50'
+                      : ''}
+                  `}
+                >
+                  {item}
+                </motion.button>
+              ))}
+            </motion.div>
+          </Card>
+
+          {state.feedback && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className={`
+                px-6 py-3 rounded-xl text-white font-bold text-lg
+                ${state.feedback === 'correct' ? 'bg-green-500' : 'bg-red-500'}
+              `}
+            >
+              {state.feedback === 'correct' ? t('correct') : t('wrong')}
+            </motion.div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export const differentGame: GameModule<DifferentState, DifferentAction> = {
+  id: 'different',
+  icon: '🔍',
+  theme: {
+    title: 'text-pink-600',
+    accent: 'text-pink-500',
+    button: 'bg-pink-500 hover:bg-pink-600'
+  },
+  maxLevel: 10,
+  responseMs: 4000,
+
+  init: (level, content, random) => ({
+    challenges: generateDifferentForLevel(level, content, random),
+    index: 0,
+    feedback: null,
+    removed: [],
+    flashing: false
+  }),
+
+  evaluate: (state, action) => {
+    if (state.feedback !== null) return { state }
+
+    const challenge = state.challenges[state.index]
+    const correct = action.index === challenge.different
+    const isLast = state.index >= state.challenges.length - 1
+
+    return {
+      state: { ...state, feedback: correct ? 'correct' : 'wrong' },
+      result: correct ? 'correct' : 'wrong',
+      item: challenge.items[challenge.different],
+      points: correct ? 10 : 0,
+      settle: isLast
+        ? { after: 1000, levelComplete: true }
+        : { after: 1000, state: { ...state, index: state.index + 1, feedback: null, removed: [], flashing: false } }
+    }
+  },
+
+  // Each challenge is answered once, so this is the share of challenges missed on the first try
+  rate: ({ answers, mistakes }) => ratingFor(mistakes / Math.max(answers, 1), 0.1, 0.4),
+
+  // Takes every other look-alike away from the current grid, down to two
+  assist: {
+    after: 2,
+    apply: (state) => {
+      const challenge = state.challenges[state.index]
+      if (!challenge || state.feedback !== null) return null
+      const left = challenge.items
+        .map((_, index) => index)
+        .filter(index => index !== challenge.different && !state.removed.includes(index))
+      if (left.length <= 2) return null
+      return { ...state, removed: [...state.removed, ...left.filter((_, i) => i % 2 === 0).slice(0, left.length - 2)] }
+    }
+  },
+
+  // Flashes the different item
+  hint: {
+    apply: (state) => (state.feedback !== null || state.flashing ? null : { ...state, flashing: true }),
+    clear: { after: FLASH_MS, state: (state) => ({ ...state, flashing: false }) }
+  },
+
+  tutorial: {
+    nextTap: (state) => {
+      const challenge = state.challenges[state.index]
+      return challenge && state.feedback === null ? challenge.different : null
+    }
+  },
+
+  render: (props) => <DifferentBoard {...props} />
+}
@@ -0,0 +1,187 @@
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { Card } from '@/components/ui/card'
+import { FOCUS_RING_CLASS, useRovingFocus } from '@/hooks/use-roving-focus'
+import type { WordPair } from '@/lib/content/schema'
+import { useSpeech } from '@/hooks/use-speech'
+import { sample } from '@/lib/rng'
+import { BoardHeader } from './board-header'
+import { ratingFor, withTimeLimit } from './stars'
+import { SpokenText } from './spoken-text'
+import type { GameModule, GameRenderProps } from './types'
+
+export interface FindPairState {
+  pairs: WordPair[]
+  selected: { image: string | null; word: string | null }
+  paired: string[]
+  // Image whose pair is highlighted after repeated mistakes
+  hint: string | null
+}
+
+export type FindPairAction = { type: 'select'; kind: 'image' | 'word'; value: string }
+
+// Progressive difficulty: Level 1 = 3 pairs, Level 2 = 5 pairs, Level 3 = 7 pairs
+const PAIRS_PER_LEVEL = [3, 5, 7]
+
+// Time allowed per pair before a star is lost
+const TIME_PER_PAIR = 8000
+
+function FindPairBoard({ state, level, maxLevel, dispatch, nameOf }: GameRenderProps<FindPairState, FindPairAction>) {
+  const t = useTranslations('games.find-pair')
+  const speak = useSpeech()
+
+  const selectWord = (word: string) => {
+    speak(word)
+    dispatch({ type: 'select', kind: 'word', value: word })
+  }
+
+  // Images come first, then the words, as one group
+  const count = state.pairs.length
+  const { getItemProps } = useRovingFocus({
+    count: count * 2,
+    onActivate: (index) => index < count
+      ? dispatch({ type: 'select', kind: 'image', value: state.pairs[index].image })
+      : selectWord(state.pairs[index - count].word)
+  })
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full">
+      <BoardHeader gameId="find-pair" level={level} maxLevel={maxLevel} />
+      <SpokenText text={t('instructions')} className="text-white text-lg mb-6 drop-shadow" />
+
+      <div className="w-full max-w-2xl">
+        <motion.div
+          className="grid grid-cols-2 gap-4 mb-6"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <Card className="p-4 bg-white/95">
+            <h3 className="text-lg font-bold text-center mb-3 text-purple-600">{t('images')}</h3>
+            <div className="grid grid-cols-3 gap-3">
+              {state.pairs.map((item, index) => (
+                <motion.button
+                  key={item.image}
+                  {...getItemProps(index)}
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={() => dispatch({ type: 'select', kind: 'image', value: item.image })}
+                  disabled={state.paired.includes(item.image)}
+                  aria-label={nameOf(item.image)}
+                  className={`
+                    p-3 text-4xl rounded-lg transition-all ${FOCUS_RING_CLASS}
+                    ${state.selected.image === item.image
+                      ? 'bg-blue-500 text-white ring-4 ring-blue-300'
+                      : state.paired.includes(item.image)
+                      ? 'bg-green-100 opacity-50'
+                      : state.hint === item.image
+                      ? 'bg-yellow-100 ring-4 ring-yellow-400 animate-pulse'
+                      : 'bg-purple-100 hover:bg-purple-200'}
+                  `}
+                >
+                  {item.image}
+                </motion.button>
+              ))}
+            </div>
+          </Card>
+
+          <Card className="p-4 bg-white/95">
+            <h3 className="text-lg font-bold text-center mb-3 text-blue-600">{t('words')}</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {state.pairs.map((item, index) => (
+                <motion.button
+                  key={item.word}
+                  {...getItemProps(count + index)}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => selectWord(item.word)}
+                  disabled={state.paired.includes(item.image)}
+                  className={`
+                    p-2 text-sm font-bold rounded-lg transition-all ${FOCUS_RING_CLASS}
+                    ${state.selected.word === item.word
+                      ? 'bg-purple-500 text-white ring-4 ring-purple-300'
+                      : state.paired.includes(item.image)
+                      ? 'bg-green-100 opacity-50'
+                      : state.hint === item.image
+                      ? 'bg-yellow-100 ring-4 ring-yellow-400 animate-pulse'
+                      : 'bg-blue-100 hover:bg-blue-200'}
+                  `}
+                >
+                  {item.word}
+                </motion.button>
+              ))}
+            </div>
+          </Card>
+        </motion.div>
+      </div>
+    </div>
+  )
+}
+
+// Highlights a picture and its word; used both as the assist and as the hint
+const highlightPair = (state: FindPairState) => {
+  const pair = state.pairs.find(p => !state.paired.includes(p.image))
+  return pair && state.hint !== pair.image ? { ...state, hint: pair.image } : null
+}
+
+export const findPairGame: GameModule<FindPairState, FindPairAction> = {
+  id: 'find-pair',
+  icon: '🎯',
+  theme: {
+    title: 'text-blue-600',
+    accent: 'text-blue-500',
+    button: 'bg-blue-500 hover:bg-blue-600'
+  },
+  maxLevel: 3,
+  responseMs: 4000,
+
+  // Words from every pack of the content locale
+  init: (level, content, random) => ({
+    pairs: sample(random, content.findPair, PAIRS_PER_LEVEL[level - 1]),
+    selected: { image: null, word: null },
+    paired: [],
+    hint: null
+  }),
+
+  evaluate: (state, action) => {
+    const selected = { ...state.selected, [action.kind]: action.value }
+    if (!selected.image || !selected.word) {
+      return { state: { ...state, selected }, sound: 'click' }
+    }
+
+    const cleared = { image: null, word: null }
+    const correct = state.pairs.find(p => p.image === selected.image && p.word === selected.word)
+    if (!correct || state.paired.includes(correct.image)) {
+      return { state: { ...state, selected: cleared }, result: 'wrong', item: selected.image }
+    }
+
+    const paired = [...state.paired, correct.image]
+    return {
+      state: { ...state, selected: cleared, paired, hint: state.hint === correct.image ? null : state.hint },
+      result: 'correct',
+      item: correct.image,
+      points: 10,
+      levelComplete: paired.length === state.pairs.length
+    }
+  },
+
+  rate: ({ mistakes, durationMs }, state) => withTimeLimit(
+    ratingFor(mistakes, 0, Math.ceil(state.pairs.length / 2)),
+    durationMs,
+    state.pairs.length * TIME_PER_PAIR
+  ),
+
+  assist: { after: 3, apply: highlightPair },
+  hint: { apply: highlightPair },
+
+  // Picks the first picture left, then its word (words come after the pictures in the roving group)
+  tutorial: {
+    nextTap: (state) => {
+      const index = state.pairs.findIndex(p =>
+        state.selected.image ? p.image === state.selected.image : !state.paired.includes(p.image))
+      if (index === -1) return null
+      return state.selected.image ? state.pairs.length + index : index
+    }
+  },
+
+  render: (props) => <FindPairBoard {...props} />
+}
@@ -0,0 +1,197 @@
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { Progress } from '@/components/ui/progress'
+import { FOCUS_RING_CLASS, useRovingFocus } from '@/hooks/use-roving-focus'
+import { sample, shuffle } from '@/lib/rng'
+import { BoardHeader } from './board-header'
+import { ratingFor } from './stars'
+import type { GameModule, GameRenderProps } from './types'
+
+interface MemoryCard {
+  id: number
+  emoji: string
+  flipped: boolean
+  matched: boolean
+}
+
+export interface MemoryState {
+  cards: MemoryCard[]
+  selected: number[]
+  // Every card is shown for a moment (hint)
+  peeking: boolean
+}
+
+export type MemoryAction = { type: 'flip'; index: number }
+
+// How long a hint shows every card
+const PEEK_MS = 1500
+
+// Progressive difficulty: Level 1 = 2x2, Level 2 = 2x3, Level 3 = 3x4, Level 4 = 4x4, Level 5 = 4x5
+const GRID_SIZES = [4, 6, 12, 16, 20]
+
+function MemoryBoard({ state, level, maxLevel, dispatch, nameOf }: GameRenderProps<MemoryState, MemoryAction>) {
+  const t = useTranslations('games.memory')
+  const progress = state.cards.length > 0
+    ? (state.cards.filter(c => c.matched).length / state.cards.length) * 100
+    : 0
+  const { getItemProps } = useRovingFocus({
+    count: state.cards.length,
+    onActivate: (index) => dispatch({ type: 'flip', index })
+  })
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full">
+      <BoardHeader gameId="memory" level={level} maxLevel={maxLevel} />
+      <Progress value={progress} className="w-full max-w-md mb-6 h-3" />
+
+      <motion.div
+        className={`grid gap-2 md:gap-3 ${
+          state.cards.length <= 4
+            ? 'grid-cols-2'
+            : state.cards.length <= 12
+            ? 'grid-cols-3 md:grid-cols-4'
+            : 'grid-cols-4 md:grid-cols-5'
+        }`}
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+      >
+        {state.cards.map((card, index) => (
+          <motion.button
+            key={card.id}
+            {...getItemProps(index)}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => dispatch({ type: 'flip', index })}
+            disabled={card.matched}
+            aria-label={card.matched
+              ? t('matchedCard', { name: nameOf(card.emoji) })
+              : card.flipped || state.peeking
+              ? nameOf(card.emoji)
+              : t('hiddenCard', { number: index + 1 })}
+            className={`
+              aspect-square rounded-xl flex items-center justify-center text-4xl md:text-5xl cursor-pointer
+              transition-all duration-300 shadow-lg ${FOCUS_RING_CLASS}
+              ${card.matched ? 'opacity-50' : ''}
+            `}
+            style={{
+              background: card.flipped || card.matched || state.peeking
+                ? 'linear-gradient(135deg, #fff 0%, #f0f0f0 100%)'
+                : 'linear-gradient(135deg, #8b5cf6 0%, #6366f1 100%)',
+              transform: card.flipped ? 'rotateY(180deg)' : 'rotateY(0deg)'
+            }}
+          >
+            {card.flipped || card.matched || state.peeking ? card.emoji : '❓'}
+          </motion.button>
+        ))}
+      </motion.div>
+    </div>
+  )
+}
+
+export const memoryGame: GameModule<MemoryState, MemoryAction> = {
+  id: 'memory',
+  icon: '🧠',
+  theme: {
+    title: 'text-purple-600',
+    accent: 'text-purple-500',
+    button: 'bg-purple-500 hover:bg-purple-600'
+  },
+  maxLevel: 5,
+  showAttempts: true,
+  responseMs: 3000,
+
+  init: (level, content, random) => {
+    const gridSize = GRID_SIZES[level - 1]
+    // From the whole pool, so symbols added by other packs turn up too
+    const emojis = sample(random, content.symbols.memory, gridSize / 2)
+    const cards = shuffle(random, [...emojis, ...emojis]
+      .map((emoji, index) => ({
+        id: index,
+        emoji,
+        flipped: false,
+        matched: false
+      })))
+
+    return { cards, selected: [], peeking: false }
+  },
+
+  evaluate: (state, action) => {
+    const card = state.cards[action.index]
+    if (state.selected.length === 2 || state.peeking || !card || card.matched || card.flipped) return { state }
+
+    const cards = state.cards.map((c, i) => (i === action.index ? { ...c, flipped: true } : c))
+    const selected = [...state.selected, action.index]
+
+    if (selected.length < 2) {
+      return { state: { ...state, cards, selected }, sound: 'click' }
+    }
+
+    const [first, second] = selected
+    if (cards[first].emoji === cards[second].emoji) {
+      // Match found
+      const matchedCards = cards.map((c, i) => (i === first || i === second ? { ...c, matched: true } : c))
+      return {
+        state: { ...state, cards, selected },
+        attempt: true,
+        result: 'correct',
+        item: cards[first].emoji,
+        points: 10,
+        sound: 'click',
+        settle: {
+          after: 500,
+          state: { ...state, cards: matchedCards, selected: [] },
+          sound: 'correct',
+          levelComplete: matchedCards.every(c => c.matched)
+        }
+      }
+    }
+
+    // No match
+    const hiddenCards = cards.map((c, i) => (i === first || i === second ? { ...c, flipped: false } : c))
+    return {
+      state: { ...state, cards, selected },
+      attempt: true,
+      result: 'wrong',
+      item: cards[first].emoji,
+      sound: 'click',
+      settle: { after: 1000, state: { ...state, cards: hiddenCards, selected: [] }, sound: 'wrong' }
+    }
+  },
+
+  // Turns taken per pair: a perfect memory needs one turn per pair
+  rate: ({ answers }, state) => ratingFor(answers / (state.cards.length / 2), 1.5, 2.5),
+
+  // Reveals one pair, as long as at least one more is left to find
+  assist: {
+    after: 4,
+    apply: (state) => {
+      const hidden = state.cards.filter(c => !c.matched)
+      if (state.selected.length > 0 || hidden.length < 4) return null
+      const emoji = hidden[0].emoji
+      return {
+        ...state,
+        cards: state.cards.map(c => (c.emoji === emoji ? { ...c, flipped: true, matched: true } : c))
+      }
+    }
+  },
+
+  // Shows every card for a moment
+  hint: {
+    apply: (state) =>
+      state.selected.length > 0 || state.peeking || state.cards.every(c => c.matched) ? null : { ...state, peeking: true },
+    clear: { after: PEEK_MS, state: (state) => ({ ...state, peeking: false }) }
+  },
+
+  // Turns over the first hidden card, then its pair
+  tutorial: {
+    nextTap: (state) => {
+      if (state.selected.length === 2 || state.peeking) return null
+      const first = state.selected[0]
+      const index = state.cards.findIndex((c, i) =>
+        !c.matched && i !== first && (first === undefined || c.emoji === state.cards[first].emoji))
+      return index === -1 ? null : index
+    }
+  },
+
+  render: (props) => <MemoryBoard {...props} />
+}
@@ -0,0 +1,172 @@
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { Card } from '@/components/ui/card'
+import { useSettings } from '@/components/settings/settings-provider'
+import { FOCUS_RING_CLASS, useRovingFocus } from '@/hooks/use-roving-focus'
+import type { PatternChallenge } from '@/lib/content/schema'
+import { generatePatternsForLevel, PATTERN_DIFFICULTY, patternRule } from '@/lib/generators/pattern'
+import { BoardHeader } from './board-header'
+import { ratingFor } from './stars'
+import type { GameModule, GameRenderProps } from './types'
+
+export interface PatternState {
+  patterns: PatternChallenge[]
+  index: number
+  feedback: 'correct' | 'wrong' | null
+  // The rule of the current challenge is shown (hint)
+  showRule: boolean
+}
+
+export type PatternAction = { type: 'answer'; option: string }
+
+function PatternBoard({ state, level, maxLevel, dispatch, nameOf }: GameRenderProps<PatternState, PatternAction>) {
+  const t = useTranslations('common')
+  const tPattern = useTranslations('games.pattern')
+  const { timing } = useSettings()
+  const pattern = state.patterns[state.index]
+  const rule = pattern && state.showRule ? patternRule(pattern.sequence) : null
+  const { getItemProps } = useRovingFocus({
+    count: pattern?.options.length ?? 0,
+    onActivate: (index) => dispatch({ type: 'answer', option: pattern.options[index] }),
+    disabled: state.feedback !== null
+  })
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full">
+      <BoardHeader gameId="pattern" level={level} maxLevel={maxLevel} detail={t('challenge', { number: state.index + 1 })} />
+
+      {pattern && (
+        <>
+          <Card className="p-6 bg-white/95 mb-6 w-full max-w-lg">
+            <motion.div
+              role="group"
+              aria-label={tPattern('sequence')}
+              className="flex justify-center items-center gap-2 md:gap-3 flex-wrap"
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+            >
+              {pattern.sequence.map((item, index) => (
+                <motion.div
+                  key={index}
+                  initial={{ scale: 0 }}
+                  animate={{ scale: 1 }}
+                  transition={{ delay: timing.animation(index * 0.1) }}
+                  role="img"
+                  aria-label={item === '?' ? tPattern('missing') : nameOf(item)}
+                  className={`
+                    w-14 h-14 md:w-16 md:h-16 flex items-center justify-center
+                    text-3xl md:text-4xl rounded-xl font-bold
+                    ${item === '?'
+                      ? state.feedback === 'correct'
+                        ? 'bg-green-500 text-white'
+                        : state.feedback === 'wrong'
+                        ? 'bg-red-500 text-white'
+                        : 'bg-gray-200'
+                      : 'bg-gradient-to-br from-yellow-300 to-orange-400'}
+                  `}
+                >
+                  {item}
+                </motion.div>
+              ))}
+            </motion.div>
+            {state.showRule && (
+              <p role="status" className="mt-4 text-center text-lg text-orange-600">
+                💡 {rule?.type === 'repeat'
+                  ? tPattern('rules.repeat', { unit: rule.unit.join(' ') })
+                  : rule?.type === 'step'
+                  ? tPattern(rule.step > 0 ? 'rules.stepUp' : 'rules.stepDown', { step: Math.abs(rule.step) })
+                  : rule?.type === 'growing'
+                  ? tPattern('rules.growing', { symbol: rule.symbol })
+                  : tPattern('rules.unknown')}
+              </p>
+            )}
+          </Card>
+
+          <div role="group" aria-label={tPattern('options')} className="flex gap-3">
+            {pattern.options.map((option, index) => (
+              <motion.button
+                key={option}
+                {...getItemProps(index)}
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => dispatch({ type: 'answer', option })}
+                disabled={state.feedback !== null}
+                aria-label={nameOf(option)}
+                className={`w-16 h-16 md:w-20 md:h-20 text-4xl md:text-5xl rounded-xl bg-white hover:bg-gray-100 shadow-lg transition-all ${FOCUS_RING_CLASS}`}
+              >
+                {option}
+              </motion.button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export const patternGame: GameModule<PatternState, PatternAction> = {
+  id: 'pattern',
+  icon: '🔢',
+  theme: {
+    title: 'text-orange-600',
+    accent: 'text-orange-500',
+    button: 'bg-orange-500 hover:bg-orange-600'
+  },
+  maxLevel: PATTERN_DIFFICULTY.length,
+  responseMs: 5000,
+
+  init: (level, content, random) => ({
+    patterns: generatePatternsForLevel(level, content, random),
+    index: 0,
+    feedback: null,
+    showRule: false
+  }),
+
+  evaluate: (state, action) => {
+    if (state.feedback !== null) return { state }
+
+    const correct = action.option === state.patterns[state.index].answer
+    const isLast = state.index >= state.patterns.length - 1
+
+    return {
+      state: { ...state, feedback: correct ? 'correct' : 'wrong' },
+      result: correct ? 'correct' : 'wrong',
+      item: state.patterns[state.index].answer,
+      points: correct ? 10 : 0,
+      settle: isLast
+        ? { after: 1000, levelComplete: true }
+        : { after: 1000, state: { ...state, index: state.index + 1, feedback: null, showRule: false } }
+    }
+  },
+
+  // Each challenge is answered once, so this is the share of challenges missed on the first try
+  rate: ({ answers, mistakes }) => ratingFor(mistakes / Math.max(answers, 1), 0.1, 0.4),
+
+  // Takes a wrong option away from the current challenge, leaving at least two to choose from
+  assist: {
+    after: 2,
+    apply: (state) => {
+      const pattern = state.patterns[state.index]
+      if (!pattern || state.feedback !== null || pattern.options.length <= 2) return null
+      const distractor = pattern.options.find(option => option !== pattern.answer)
+      const patterns = state.patterns.map((p, i) =>
+        i === state.index ? { ...p, options: p.options.filter(option => option !== distractor) } : p
+      )
+      return { ...state, patterns }
+    }
+  },
+
+  // Shows the rule behind the current challenge
+  hint: {
+    apply: (state) => (state.feedback !== null || state.showRule ? null : { ...state, showRule: true })
+  },
+
+  tutorial: {
+    nextTap: (state) => {
+      const pattern = state.patterns[state.index]
+      return pattern && state.feedback === null ? pattern.options.indexOf(pattern.answer) : null
+    }
+  },
+
+  render: (props) => <PatternBoard {...props} />
+}
@@ -0,0 +1,21 @@
+import { memoryGame } from './memory'
+import { findPairGame } from './find-pair'
+import { patternGame } from './pattern'
+import { differentGame } from './different'
+import { sequenceGame } from './sequence'
+import { simonGame } from './simon'
+import { playableGame, type GameModule } from './types'
+
+// Games in menu order. Adding a game means adding its module here.
+export const GAME_MODULES: GameModule[] = [
+  playableGame(memoryGame),
+  playableGame(findPairGame),
+  playableGame(patternGame),
+  playableGame(differentGame),
+  playableGame(sequenceGame),
+  playableGame(simonGame)
+]
+
+export function getGameModule(id: string | null) {
+  return GAME_MODULES.find(game => game.id === id) ?? null
+}
@@ -0,0 +1,347 @@
+import { useState, type ReactNode } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import {
+  DndContext,
+  DragOverlay,
+  MouseSensor,
+  TouchSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import { Check } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { useSettings } from '@/components/settings/settings-provider'
+import { FOCUS_RING_CLASS, useRovingFocus } from '@/hooks/use-roving-focus'
+import { SEQUENCE_LEVELS } from '@/lib/content/schema'
+import { pick, shuffle } from '@/lib/rng'
+import { BoardHeader } from './board-header'
+import { ratingFor, withTimeLimit } from './stars'
+import { SpokenText } from './spoken-text'
+import type { GameModule, GameRenderProps } from './types'
+
+export interface SequenceState {
+  correctOrder: string[]
+  // What the child put in each numbered slot; null while empty
+  slots: (string | null)[]
+  // Items not in a slot, in shuffled order
+  pool: string[]
+  // Slots found wrong by the last check, until something is moved
+  misplaced: number[]
+  // The item that goes next is highlighted after repeated mistakes
+  hint: boolean
+}
+
+export type SequenceAction =
+  // Put an item (from the pool or another slot) in a slot; whatever was there swaps places with it
+  | { type: 'place'; item: string; slot: number }
+  // Send a slot's item back to the pool
+  | { type: 'remove'; slot: number }
+  | { type: 'check' }
+
+// Time allowed per item before a star is lost
+const TIME_PER_ITEM = 6000
+
+const ITEM_CLASS = 'w-14 h-14 md:w-16 md:h-16 flex items-center justify-center text-3xl md:text-4xl rounded-xl'
+
+// First slot that doesn't hold the right item yet, or -1 when all do
+const firstWrongSlot = (state: SequenceState) =>
+  state.slots.findIndex((item, index) => item !== state.correctOrder[index])
+
+function place(state: SequenceState, item: string, slot: number): SequenceState | null {
+  const from = state.slots.indexOf(item)
+  if (slot < 0 || slot >= state.slots.length || from === slot || (from === -1 && !state.pool.includes(item))) return null
+
+  const slots = [...state.slots]
+  const displaced = slots[slot]
+  slots[slot] = item
+  let pool = state.pool.filter(i => i !== item)
+  if (from !== -1) slots[from] = displaced
+  else if (displaced !== null) pool = [...pool, displaced]
+  return { ...state, slots, pool, misplaced: [], hint: false }
+}
+
+interface SequenceItemProps {
+  // Where the item is (e.g. "pool-2" or "slot-0"), so repeated symbols don't clash while dragging
+  id: string
+  item: string
+  label: string
+  highlighted: boolean
+  // Props from useRovingFocus
+  itemProps: ReturnType<ReturnType<typeof useRovingFocus>['getItemProps']>
+  onClick: () => void
+  className: string
+}
+
+// An item that can be dragged, or tapped
+function SequenceItem({ id, item, label, highlighted, itemProps, onClick, className }: SequenceItemProps) {
+  const { setNodeRef, listeners, isDragging } = useDraggable({ id, data: { item } })
+  const { ref, ...rest } = itemProps
+
+  return (
+    <motion.button
+      {...rest}
+      {...listeners}
+      ref={(element: HTMLButtonElement | null) => {
+        setNodeRef(element)
+        ref(element)
+      }}
+      whileHover={{ scale: 1.1 }}
+      whileTap={{ scale: 0.9 }}
+      onClick={onClick}
+      aria-label={label}
+      className={`
+        ${ITEM_CLASS} shadow-lg touch-manipulation ${FOCUS_RING_CLASS} ${className}
+        ${isDragging ? 'opacity-30' : ''}
+        ${highlighted ? 'ring-4 ring-yellow-300 animate-pulse' : ''}
+      `}
+    >
+      {item}
+    </motion.button>
+  )
+}
+
+// Drop target of a numbered slot or of the pool
+function DropZone({ id, className, children }: { id: string; className: string; children: ReactNode }) {
+  const { setNodeRef, isOver } = useDroppable({ id })
+  return (
+    <div ref={setNodeRef} className={`${className} ${isOver ? 'ring-4 ring-teal-300' : ''}`}>
+      {children}
+    </div>
+  )
+}
+
+function SequenceBoard({ state, level, maxLevel, dispatch, nameOf }: GameRenderProps<SequenceState, SequenceAction>) {
+  const t = useTranslations('games.sequence')
+  const { timing } = useSettings()
+  const [dragging, setDragging] = useState<string | null>(null)
+  // A short move (mouse) or a short hold (touch) starts a drag, so taps and scrolling still work
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 150, tolerance: 8 } })
+  )
+  const slotCount = state.slots.length
+  const full = !state.slots.includes(null)
+  const next = state.hint ? state.correctOrder[firstWrongSlot(state)] : null
+
+  // A tapped item goes to the first empty slot; a tapped slot gives its item back
+  const tapItem = (item: string) => {
+    const slot = state.slots.indexOf(null)
+    if (slot !== -1) dispatch({ type: 'place', item, slot })
+  }
+  const tapSlot = (slot: number) => dispatch({ type: 'remove', slot })
+  const check = () => dispatch({ type: 'check' })
+
+  // Slots, then the pool, then the check button, as one group so switch scanning reaches them all
+  const { getItemProps } = useRovingFocus({
+    count: slotCount + state.pool.length + 1,
+    onActivate: (index) => index < slotCount
+      ? tapSlot(index)
+      : index < slotCount + state.pool.length
+      ? tapItem(state.pool[index - slotCount])
+      : check()
+  })
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setDragging(null)
+    const item: string = active.data.current?.item
+    if (!over) return
+    if (over.id === 'pool') {
+      const from = String(active.id)
+      if (from.startsWith('slot-')) tapSlot(Number(from.replace('slot-', '')))
+    } else {
+      dispatch({ type: 'place', item, slot: Number(String(over.id).replace('slot-', '')) })
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full">
+      <BoardHeader gameId="sequence" level={level} maxLevel={maxLevel} />
+
+      <DndContext
+        sensors={sensors}
+        onDragStart={({ active }) => setDragging(active.data.current?.item ?? null)}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setDragging(null)}
+      >
+        <Card className="p-6 bg-white/95 mb-6 w-full max-w-lg">
+          <div className="flex justify-center items-center gap-2 md:gap-3 flex-wrap mb-4">
+            {state.slots.map((item, index) => {
+              const wrong = state.misplaced.includes(index)
+              const checked = state.misplaced.length > 0
+              return (
+                <motion.div
+                  key={index}
+                  initial={{ scale: 0 }}
+                  animate={wrong ? { scale: 1, x: [0, -6, 6, -6, 0] } : { scale: 1 }}
+                  transition={{ delay: wrong ? 0 : timing.animation(index * 0.1) }}
+                >
+                  <DropZone
+                    id={`slot-${index}`}
+                    className={`
+                      rounded-xl border-2 border-dashed
+                      ${wrong
+                        ? 'bg-red-100 border-red-500'
+                        : checked && item !== null
+                        ? 'bg-green-100 border-green-500'
+                        : next !== null && index === firstWrongSlot(state)
+                        ? 'bg-yellow-50 border-yellow-400'
+                        : 'bg-gray-50 border-gray-300'}
+                    `}
+                  >
+                    {item === null ? (
+                      <button
+                        {...getItemProps(index)}
+                        disabled
+                        aria-label={t('emptySlot', { number: index + 1 })}
+                        className={`${ITEM_CLASS} font-bold text-gray-400`}
+                      >
+                        {index + 1}
+                      </button>
+                    ) : (
+                      <SequenceItem
+                        id={`slot-${index}`}
+                        item={item}
+                        label={wrong
+                          ? t('misplacedSlot', { number: index + 1, name: nameOf(item) })
+                          : t('filledSlot', { number: index + 1, name: nameOf(item) })}
+                        highlighted={item === next}
+                        itemProps={getItemProps(index)}
+                        onClick={() => tapSlot(index)}
+                        className="bg-white"
+                      />
+                    )}
+                  </DropZone>
+                </motion.div>
+              )
+            })}
+          </div>
+
+          <DropZone
+            id="pool"
+            className="rounded-xl p-2 min-h-20 flex justify-center items-center gap-2 md:gap-3 flex-wrap bg-purple-50"
+          >
+            <div role="group" aria-label={t('pool')} className="contents">
+              {state.pool.map((item, index) => (
+                <SequenceItem
+                  key={index}
+                  id={`pool-${index}`}
+                  item={item}
+                  label={nameOf(item)}
+                  highlighted={item === next}
+                  itemProps={getItemProps(slotCount + index)}
+                  onClick={() => tapItem(item)}
+                  className="bg-gradient-to-br from-purple-400 to-pink-400 text-white"
+                />
+              ))}
+            </div>
+          </DropZone>
+
+          <div className="flex justify-center mt-4">
+            <Button
+              {...getItemProps(slotCount + state.pool.length)}
+              onClick={check}
+              disabled={!full || state.misplaced.length > 0}
+              size="lg"
+              className={`gap-2 bg-teal-500 hover:bg-teal-600 text-white text-lg ${FOCUS_RING_CLASS}`}
+            >
+              <Check className="w-5 h-5" />
+              {t('check')}
+            </Button>
+          </div>
+        </Card>
+
+        <DragOverlay>
+          {dragging && (
+            <div className={`${ITEM_CLASS} bg-white shadow-2xl ring-4 ring-teal-300 cursor-grabbing`}>{dragging}</div>
+          )}
+        </DragOverlay>
+      </DndContext>
+
+      <SpokenText text={t('instructions')} className="text-white text-lg drop-shadow" />
+    </div>
+  )
+}
+
+// Highlights the item that goes next; used both as the assist and as the hint
+const highlightNext = (state: SequenceState) =>
+  state.hint || firstWrongSlot(state) === -1 ? null : { ...state, hint: true }
+
+export const sequenceGame: GameModule<SequenceState, SequenceAction> = {
+  id: 'sequence',
+  icon: '➡️',
+  theme: {
+    title: 'text-teal-600',
+    accent: 'text-teal-500',
+    button: 'bg-teal-500 hover:bg-teal-600'
+  },
+  maxLevel: SEQUENCE_LEVELS,
+  // Between placing the last item and checking
+  responseMs: 5000,
+
+  init: (level, content, random) => {
+    // Sequences are dealt out to the levels in turn, so no two levels share one and every pack's are played
+    const correctOrder = pick(random, content.sequence.filter((_, index) => index % SEQUENCE_LEVELS === level - 1))
+    return {
+      correctOrder,
+      slots: correctOrder.map(() => null),
+      pool: shuffle(random, correctOrder),
+      misplaced: [],
+      hint: false
+    }
+  },
+
+  // Moving items around is free; only a check is an answer
+  evaluate: (state, action) => {
+    switch (action.type) {
+      case 'place': {
+        const placed = place(state, action.item, action.slot)
+        return placed ? { state: placed, sound: 'click' } : { state }
+      }
+      case 'remove': {
+        const item = state.slots[action.slot]
+        if (!item) return { state }
+        const slots = state.slots.map((s, i) => (i === action.slot ? null : s))
+        return { state: { ...state, slots, pool: [...state.pool, item], misplaced: [], hint: false }, sound: 'click' }
+      }
+      case 'check': {
+        // Something has to change before checking again
+        if (state.slots.includes(null) || state.misplaced.length > 0) return { state }
+        const misplaced = state.slots.flatMap((item, index) => (item === state.correctOrder[index] ? [] : [index]))
+        if (misplaced.length > 0) {
+          return { state: { ...state, misplaced }, result: 'wrong', item: state.correctOrder[misplaced[0]] }
+        }
+        return { state, result: 'correct', points: 10 * state.correctOrder.length, levelComplete: true }
+      }
+    }
+  },
+
+  rate: ({ mistakes, durationMs }, state) => withTimeLimit(
+    ratingFor(mistakes, 0, 2),
+    durationMs,
+    state.correctOrder.length * TIME_PER_ITEM
+  ),
+
+  assist: { after: 2, apply: highlightNext },
+  hint: { apply: highlightNext },
+
+  // Takes wrong items out of their slots, otherwise puts the next item in, then checks
+  // (roving order: slots, pool, check button)
+  tutorial: {
+    nextTap: (state) => {
+      const slot = firstWrongSlot(state)
+      if (slot === -1) return state.misplaced.length === 0 ? state.slots.length + state.pool.length : null
+      if (state.slots[slot] !== null) return slot
+      const expected = state.correctOrder[slot]
+      const index = state.pool.indexOf(expected)
+      // The item it needs may be sitting in a later slot
+      return index === -1 ? state.slots.indexOf(expected) : state.slots.length + index
+    }
+  },
+
+  render: (props) => <SequenceBoard {...props} />
+}
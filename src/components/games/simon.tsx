@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { Circle, Music, Square, Star, Triangle } from 'lucide-react'
+import { useSettings } from '@/components/settings/settings-provider'
+import { FOCUS_RING_CLASS, useRovingFocus } from '@/hooks/use-roving-focus'
+import type { SimonPalette } from '@/lib/profiles/schema'
+import { randomInt } from '@/lib/rng'
+import { playSound } from '@/lib/sound'
+import { BoardHeader } from './board-header'
+import { ratingFor } from './stars'
+import { SpokenText } from './spoken-text'
+import type { GameModule, GameRenderProps } from './types'
+
+export interface SimonState {
+  sequence: number[]
+  input: number[]
+  phase: 'showing' | 'input' | 'done'
+  // Bumped every time the sequence has to be played again
+  replay: number
+  // Played back slower after repeated mistakes
+  slow: boolean
+}
+
+export type SimonAction = { type: 'press'; button: number } | { type: 'playback-done' }
+
+// Simon game colors
+export const SIMON_COLORS = [
+  { id: 0, color: 'green', symbol: '🟢', shape: 'circle', sound: 'simon-green' },
+  { id: 1, color: 'red', symbol: '🔴', shape: 'square', sound: 'simon-red' },
+  { id: 2, color: 'yellow', symbol: '🟡', shape: 'triangle', sound: 'simon-yellow' },
+  { id: 3, color: 'blue', symbol: '🔵', shape: 'star', sound: 'simon-blue' }
+] as const
+
+const SHAPE_ICONS = { circle: Circle, square: Square, triangle: Triangle, star: Star }
+
+interface PaletteColor {
+  // Message key under games.simon.colors
+  name: string
+  base: string
+  active: string
+}
+
+// Colours per button id. The colour-blind palettes are built from the Okabe-Ito and IBM safe colours
+// and also differ in lightness, so neighbouring buttons never rely on hue alone.
+const PALETTES: Record<SimonPalette, PaletteColor[]> = {
+  standard: [
+    { name: 'green', base: '#22c55e', active: '#86efac' },
+    { name: 'red', base: '#ef4444', active: '#fca5a5' },
+    { name: 'yellow', base: '#facc15', active: '#fef08a' },
+    { name: 'blue', base: '#3b82f6', active: '#93c5fd' }
+  ],
+  deuteranopia: [
+    { name: 'blue', base: '#648fff', active: '#b9ccff' },
+    { name: 'orange', base: '#fe6100', active: '#ffb080' },
+    { name: 'yellow', base: '#ffb000', active: '#ffdf99' },
+    { name: 'black', base: '#1f2937', active: '#9ca3af' }
+  ],
+  protanopia: [
+    { name: 'blue', base: '#0072b2', active: '#66b8e6' },
+    { name: 'orange', base: '#e69f00', active: '#ffd27a' },
+    { name: 'yellow', base: '#f0e442', active: '#fbf6b8' },
+    { name: 'black', base: '#1f2937', active: '#9ca3af' }
+  ],
+  tritanopia: [
+    { name: 'teal', base: '#009e73', active: '#7fe0c4' },
+    { name: 'red', base: '#d55e00', active: '#ffab6b' },
+    { name: 'pink', base: '#cc79a7', active: '#f0c4dc' },
+    { name: 'black', base: '#1f2937', active: '#9ca3af' }
+  ]
+}
+
+// How much slower the sequence is played back once the game helps
+const ASSIST_SLOWDOWN = 1.6
+
+// Pitch-only mode: all buttons look alike and don't light up while the sequence plays,
+// so it can only be followed by ear
+const NEUTRAL = '#6b7280'
+
+function SimonBoard({ state, level, maxLevel, dispatch, pace }: GameRenderProps<SimonState, SimonAction>) {
+  const t = useTranslations('games.simon')
+  const { settings, timing } = useSettings()
+  const palette = PALETTES[settings.simonPalette]
+  const [activeButton, setActiveButton] = useState<number | null>(null)
+  const isShowingSequence = state.phase === 'showing'
+  const { getItemProps } = useRovingFocus({
+    count: SIMON_COLORS.length,
+    onActivate: (index) => dispatch({ type: 'press', button: SIMON_COLORS[index].id }),
+    disabled: state.phase !== 'input'
+  })
+
+  // Play the sequence back whenever the board enters the showing phase
+  useEffect(() => {
+    if (!isShowingSequence) return
+
+    // Playback delays follow the speed setting, the adaptive pace and the assist
+    const delay = (ms: number) => timing.simon((ms / pace) * (state.slow ? ASSIST_SLOWDOWN : 1))
+
+    const timeouts: ReturnType<typeof setTimeout>[] = []
+    const showStep = (index: number) => {
+      const buttonId = state.sequence[index]
+      setActiveButton(buttonId)
+      playSound(SIMON_COLORS[buttonId].sound)
+
+      timeouts.push(setTimeout(() => {
+        setActiveButton(null)
+        if (index + 1 < state.sequence.length) {
+          timeouts.push(setTimeout(() => showStep(index + 1), delay(300)))
+        } else {
+          dispatch({ type: 'playback-done' })
+        }
+      }, delay(500)))
+    }
+
+    timeouts.push(setTimeout(() => showStep(0), delay(1000)))
+    return () => {
+      timeouts.forEach(clearTimeout)
+      setActiveButton(null)
+    }
+  }, [isShowingSequence, state.replay])
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full">
+      <BoardHeader gameId="simon" level={level} maxLevel={maxLevel} />
+      {isShowingSequence ? (
+        <p className="text-white text-lg mb-6 drop-shadow">
+          {t('watch')}
+        </p>
+      ) : (
+        <SpokenText text={t('yourTurn')} className="text-white text-lg mb-6 drop-shadow" />
+      )}
+
+      {/* Simon buttons */}
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        {SIMON_COLORS.map((button, index) => {
+          const colors = palette[button.id]
+          const Shape = settings.simonShapes ? SHAPE_ICONS[button.shape] : Music
+          const label = settings.simonPitchOnly
+            ? settings.simonShapes ? t(`shapes.${button.shape}`) : t('button', { number: index + 1 })
+            : settings.simonShapes
+            ? `${t(`colors.${palette[button.id].name}`)}, ${t(`shapes.${button.shape}`)}`
+            : t(`colors.${palette[button.id].name}`)
+          const lit = activeButton === button.id && !settings.simonPitchOnly
+
+          return (
+            <motion.button
+              key={button.id}
+              {...getItemProps(index)}
+              whileHover={{ scale: activeButton === null ? 1.05 : 1 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => dispatch({ type: 'press', button: button.id })}
+              disabled={isShowingSequence}
+              aria-label={label}
+              style={{ backgroundColor: settings.simonPitchOnly ? NEUTRAL : lit ? colors.active : colors.base }}
+              className={`
+                w-32 h-32 md:w-40 md:h-40 rounded-2xl shadow-xl transition-all duration-200 ${FOCUS_RING_CLASS}
+                ${lit ? 'ring-8 ring-white/80' : ''}
+                ${isShowingSequence ? 'cursor-not-allowed' : 'cursor-pointer'}
+              `}
+            >
+              <Shape
+                className={`w-12 h-12 md:w-16 md:h-16 mx-auto ${settings.simonShapes ? 'fill-white/90' : ''} text-white drop-shadow`}
+              />
+            </motion.button>
+          )
+        })}
+      </div>
+
+      <div className="text-white text-lg drop-shadow">
+        {t('progress', { done: state.input.length, total: state.sequence.length })}
+      </div>
+    </div>
+  )
+}
+
+export const simonGame: GameModule<SimonState, SimonAction> = {
+  id: 'simon',
+  icon: '🎵',
+  theme: {
+    title: 'text-indigo-600',
+    accent: 'text-indigo-500',
+    button: 'bg-indigo-500 hover:bg-indigo-600'
+  },
+  maxLevel: 10,
+  // Between two presses
+  responseMs: 1500,
+  paced: true,
+
+  // Sequence length grows with the level
+  init: (level, _content, random) => ({
+    sequence: Array.from({ length: level }, () => randomInt(random, 0, SIMON_COLORS.length - 1)),
+    input: [],
+    phase: 'showing',
+    replay: 0,
+    slow: false
+  }),
+
+  evaluate: (state, action, level) => {
+    if (action.type === 'playback-done') {
+      return { state: { ...state, phase: 'input' } }
+    }
+    if (state.phase !== 'input') return { state }
+
+    const input = [...state.input, action.button]
+    const index = input.length - 1
+
+    // Wrong! Show sequence again
+    if (input[index] !== state.sequence[index]) {
+      return {
+        state: { ...state, input: [], phase: 'showing', replay: state.replay + 1 },
+        result: 'wrong',
+        item: SIMON_COLORS[state.sequence[index]].symbol
+      }
+    }
+
+    // The entire sequence is correct
+    if (input.length === state.sequence.length) {
+      return {
+        state: { ...state, input, phase: 'done' },
+        result: 'correct',
+        points: 10 * level,
+        settle: { after: 1000, levelComplete: true }
+      }
+    }
+
+    return { state: { ...state, input }, sound: SIMON_COLORS[action.button].sound }
+  },
+
+  // Every mistake replays the sequence, so mistakes are retries
+  rate: ({ mistakes }) => ratingFor(mistakes, 0, 1),
+
+  // Plays the sequence back slower for the rest of the level
+  assist: {
+    after: 2,
+    apply: (state) => (state.slow ? null : { ...state, slow: true })
+  },
+
+  // Plays the sequence again; what was entered so far has to be entered again
+  hint: {
+    apply: (state) =>
+      state.phase === 'input' ? { ...state, input: [], phase: 'showing', replay: state.replay + 1 } : null
+  },
+
+  // Buttons are in SIMON_COLORS order, so a colour's id is its index
+  tutorial: {
+    nextTap: (state) => (state.phase === 'input' ? state.sequence[state.input.length] : null)
+  },
+
+  render: (props) => <SimonBoard {...props} />
+}
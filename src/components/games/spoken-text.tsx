@@ -0,0 +1,21 @@
+import type { ReactNode } from 'react'
+import { Volume2 } from 'lucide-react'
+import { useSpeech } from '@/hooks/use-speech'
+
+interface SpokenTextProps {
+  text: string
+  className?: string
+  children?: ReactNode
+}
+
+// Text that children who cannot read yet can tap to hear
+export function SpokenText({ text, className, children }: SpokenTextProps) {
+  const speak = useSpeech()
+
+  return (
+    <button type="button" onClick={() => speak(text)} className={`inline-flex items-center gap-2 ${className ?? ''}`}>
+      {children ?? text}
+      <Volume2 className="w-5 h-5 opacity-80 shrink-0" aria-hidden />
+    </button>
+  )
+}
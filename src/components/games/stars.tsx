@@ -0,0 +1,43 @@
+import { motion } from 'framer-motion'
+import { Star } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { useSettings } from '@/components/settings/settings-provider'
+import type { StarRating } from './types'
+
+// Three stars while `value` is at most `three`, two while at most `two`, otherwise one
+export const ratingFor = (value: number, three: number, two: number): StarRating =>
+  value <= three ? 3 : value <= two ? 2 : 1
+
+// Takes a star away (never below one) when a level took much longer than `limitMs`
+export const withTimeLimit = (stars: StarRating, durationMs: number, limitMs: number): StarRating =>
+  durationMs > limitMs ? (Math.max(1, stars - 1) as StarRating) : stars
+
+interface StarRowProps {
+  stars: number
+  max?: number
+  // Pop the earned stars in one by one
+  animate?: boolean
+  className?: string
+}
+
+export function StarRow({ stars, max = 3, animate = false, className = 'w-10 h-10' }: StarRowProps) {
+  const t = useTranslations('game')
+  const { timing } = useSettings()
+
+  return (
+    <div role="img" aria-label={t('stars', { count: stars, max })} className="flex justify-center gap-1">
+      {Array.from({ length: max }, (_, index) => (
+        <motion.span
+          key={index}
+          initial={animate ? { scale: 0, rotate: -90 } : false}
+          animate={{ scale: 1, rotate: 0 }}
+          transition={{ delay: animate ? timing.animation(0.3 + index * 0.25) : 0, type: 'spring' }}
+        >
+          <Star
+            className={`${className} ${index < stars ? 'fill-yellow-400 text-yellow-500' : 'text-gray-300'}`}
+          />
+        </motion.span>
+      ))}
+    </div>
+  )
+}
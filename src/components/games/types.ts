@@ -0,0 +1,116 @@
+import type { ReactNode } from 'react'
+import type { GameContent } from '@/lib/content/schema'
+import type { Random } from '@/lib/rng'
+import type { SoundType } from '@/lib/sound'
+
+// Classes used by the menu card of a game (kept as full class names so Tailwind picks them up)
+export interface GameTheme {
+  title: string
+  accent: string
+  button: string
+}
+
+export interface GameRenderProps<S, A> {
+  state: S
+  level: number
+  maxLevel: number
+  dispatch: (action: A) => void
+  // Name of a symbol in the current language (e.g. "cachorro" for 🐶), used as its accessible label
+  nameOf: (symbol: string) => string
+  // Speed of the timed parts of the board, set by adaptive difficulty; above 1 is faster
+  pace: number
+}
+
+// Result of applying an action to the board state
+export interface GameEvaluation<S> {
+  state: S
+  // Outcome of the action, used for scoring; plays the matching sound unless `sound` is set
+  result?: 'correct' | 'wrong'
+  // What the answer was about (the expected symbol, word, colour...), shown to parents as most-missed items
+  item?: string
+  points?: number
+  // Counts as an attempt (e.g. turning over the second memory card)
+  attempt?: boolean
+  sound?: SoundType
+  // Delayed transition, e.g. flipping cards back or moving to the next challenge
+  settle?: {
+    after: number
+    state?: S
+    sound?: SoundType
+    levelComplete?: boolean
+  }
+  // Level finished right away
+  levelComplete?: boolean
+}
+
+export type StarRating = 1 | 2 | 3
+
+// Help a game gives after repeated mistakes, so a child never fails forever
+export interface AssistPolicy<S> {
+  // Mistakes in a row that trigger it
+  after: number
+  // The board with the help applied (a highlighted answer, a removed distractor...), or null when
+  // there is nothing left to help with
+  apply: (state: S, level: number) => S | null
+}
+
+// Logged in place of a player action when the session gave help, so replays show it too
+export const ASSIST_ACTION = { type: 'assist' } as const
+
+// Hint the player asks for with the hint button
+export interface HintPolicy<S> {
+  // The board with the hint shown, or null when no hint fits the board right now
+  apply: (state: S, level: number) => S | null
+  // Hints shown only for a moment (a flash, a peek) are taken away after `after` ms
+  clear?: {
+    after: number
+    state: (state: S) => S
+  }
+}
+
+// Logged when the player used a hint
+export const HINT_ACTION = { type: 'hint' } as const
+
+// First-play tutorial: a demo that taps the right answers on a level 1 board, then a guided practice round
+export interface GameTutorial<S> {
+  // Item to tap next (its roving focus index, see useRovingFocus), or null while the board isn't
+  // waiting for one (e.g. Simon playing the sequence, cards flipping back)
+  nextTap: (state: S) => number | null
+}
+
+// Totals of a finished level, used to rate it
+export interface LevelSummary {
+  // Answers that were scored (see GameEvaluation.result)
+  answers: number
+  mistakes: number
+  durationMs: number
+}
+
+// Without type arguments, a game whose board and actions are opaque (see playableGame)
+export interface GameModule<S = unknown, A = unknown> {
+  // Also the message namespace of the game (`games.<id>.title`, `.tagline`, `.levels`)
+  id: string
+  icon: string
+  theme: GameTheme
+  maxLevel: number
+  // Show the attempts counter in the game header
+  showAttempts?: boolean
+  // Comfortable time to answer, in ms since the previous action; adaptive difficulty compares answers with it
+  responseMs: number
+  // The board follows GameRenderProps.pace
+  paced?: boolean
+  // Builds the board for a level from the loaded content packs. All randomness must come from `random`
+  // so the board can be rebuilt from the session seed.
+  init: (level: number, content: GameContent, random: Random) => S
+  render: (props: GameRenderProps<S, A>) => ReactNode
+  evaluate: (state: S, action: A, level: number) => GameEvaluation<S>
+  // Stars earned for a finished level; `state` is the final board
+  rate: (summary: LevelSummary, state: S, level: number) => StarRating
+  assist?: AssistPolicy<S>
+  hint?: HintPolicy<S>
+  tutorial?: GameTutorial<S>
+}
+
+// Lets a game with its own state and action types sit among the others (e.g. in the registry). The session
+// only ever passes a game back the states it made and the actions its board dispatched.
+export const playableGame = <S, A>(game: GameModule<S, A>) => game as unknown as GameModule
@@ -0,0 +1,40 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+type Politeness = 'polite' | 'assertive'
+
+type Listener = (message: string, politeness: Politeness) => void
+
+let listener: Listener | null = null
+
+// Reads a message out through the screen reader, e.g. "Correct!" after an answer
+export function announce(message: string, politeness: Politeness = 'polite') {
+  listener?.(message, politeness)
+}
+
+// Visually hidden live regions that `announce` writes to. Rendered once, in the root layout.
+export function LiveAnnouncer() {
+  const [messages, setMessages] = useState<Record<Politeness, string>>({ polite: '', assertive: '' })
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    listener = (message, politeness) => {
+      // Clear first so the same message (e.g. two wrong answers in a row) is read again
+      setMessages(prev => ({ ...prev, [politeness]: '' }))
+      clearTimeout(timer)
+      timer = setTimeout(() => setMessages(prev => ({ ...prev, [politeness]: message })), 50)
+    }
+    return () => {
+      listener = null
+      clearTimeout(timer)
+    }
+  }, [])
+
+  return (
+    <div className="sr-only">
+      <div role="status" aria-live="polite" aria-atomic="true">{messages.polite}</div>
+      <div role="alert" aria-live="assertive" aria-atomic="true">{messages.assertive}</div>
+    </div>
+  )
+}
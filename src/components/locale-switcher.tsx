@@ -0,0 +1,39 @@
+'use client'
+
+import { useTransition } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import { Languages } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LOCALE_NAMES, LOCALES, type Locale } from '@/i18n/config'
+import { setUserLocale } from '@/i18n/locale'
+
+interface LocaleSwitcherProps {
+  className?: string
+}
+
+// Saves the language in a cookie; the server action makes Next render the page again in that language
+export function LocaleSwitcher({ className }: LocaleSwitcherProps) {
+  const t = useTranslations('common')
+  const locale = useLocale()
+  const [isPending, startTransition] = useTransition()
+
+  const handleChange = (value: string) => {
+    startTransition(() => setUserLocale(value as Locale))
+  }
+
+  return (
+    <Select value={locale} onValueChange={handleChange} disabled={isPending}>
+      <SelectTrigger className={`gap-2 bg-white/90 ${className ?? ''}`} aria-label={t('language')}>
+        <Languages className="w-4 h-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LOCALES.map((option) => (
+          <SelectItem key={option} value={option}>
+            {LOCALE_NAMES[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
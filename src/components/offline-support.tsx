@@ -0,0 +1,27 @@
+'use client'
+
+import { useEffect } from 'react'
+import { flushPendingWrites } from '@/lib/offline/queue'
+
+// Registers the service worker (public/sw.js) and sends progress queued while offline
+// as soon as the server can be reached. Rendered once, in the root layout.
+export function OfflineSupport() {
+  useEffect(() => {
+    const flush = () => void flushPendingWrites()
+    flush()
+    window.addEventListener('online', flush)
+
+    // In development the service worker would serve stale builds
+    if (process.env.NODE_ENV === 'production' && 'serviceWorker' in navigator) {
+      navigator.serviceWorker.register('/sw.js')
+        .then((registration) => {
+          if (navigator.onLine) registration.active?.postMessage('refresh-precache')
+        })
+        .catch(error => console.error('Could not register the service worker:', error))
+    }
+
+    return () => window.removeEventListener('online', flush)
+  }, [])
+
+  return null
+}
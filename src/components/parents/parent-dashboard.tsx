@@ -0,0 +1,312 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useFormatter, useTranslations } from 'next-intl'
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { ArrowLeft, PlayCircle } from 'lucide-react'
+import { LocaleSwitcher } from '@/components/locale-switcher'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { GAME_MODULES, getGameModule } from '@/components/games/registry'
+import { fetchProfiles } from '@/lib/profiles/client'
+import type { ChildProfile } from '@/lib/profiles/schema'
+import { fetchRecentSessions } from '@/lib/replay/client'
+import type { RecordedSession } from '@/lib/replay/schema'
+import { fetchDashboardStats } from '@/lib/stats/client'
+import type { DashboardStats } from '@/lib/stats/dashboard'
+
+const ALL_PROFILES = 'all'
+const PERIODS = [7, 30, 90]
+// Sessions listed for replaying
+const RECENT_SESSIONS = 10
+
+// One colour per game; the theme only defines five chart colours
+const GAME_COLORS = ['var(--chart-1)', 'var(--chart-2)', 'var(--chart-3)', 'var(--chart-4)', 'var(--chart-5)', 'oklch(0.627 0.265 303.9)']
+
+
+// "2024-05-31" -> "31/05"
+const formatDay = (date: string) => `${date.slice(8, 10)}/${date.slice(5, 7)}`
+
+export function ParentDashboard() {
+  const t = useTranslations('parents')
+  const tGames = useTranslations('games')
+  const format = useFormatter()
+  const [profiles, setProfiles] = useState<ChildProfile[]>([])
+  const [profileId, setProfileId] = useState(ALL_PROFILES)
+  const [days, setDays] = useState(30)
+  const [stats, setStats] = useState<DashboardStats | null>(null)
+  const [error, setError] = useState(false)
+  const [sessions, setSessions] = useState<RecordedSession[]>([])
+
+  useEffect(() => {
+    fetchProfiles()
+      .then(setProfiles)
+      .catch(err => console.error('Could not load profiles:', err))
+  }, [])
+
+  useEffect(() => {
+    setStats(null)
+    setError(false)
+    fetchDashboardStats(profileId === ALL_PROFILES ? undefined : profileId, days)
+      .then(setStats)
+      .catch(err => {
+        console.error('Could not load dashboard stats:', err)
+        setError(true)
+      })
+  }, [profileId, days])
+
+  useEffect(() => {
+    fetchRecentSessions(profileId === ALL_PROFILES ? undefined : profileId)
+      .then(list => setSessions(list.slice(0, RECENT_SESSIONS)))
+      .catch(err => console.error('Could not load sessions:', err))
+  }, [profileId])
+
+  const isEmpty = stats !== null && stats.playTime.length === 0
+
+  const accuracyConfig: ChartConfig = Object.fromEntries(
+    GAME_MODULES.map((gameModule, i) => [
+      gameModule.id,
+      { label: tGames(`${gameModule.id}.title`), color: GAME_COLORS[i % GAME_COLORS.length] }
+    ])
+  )
+  const playTimeConfig: ChartConfig = {
+    minutes: { label: t('minutes'), color: 'var(--chart-2)' }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow">
+        <div className="max-w-5xl mx-auto p-4 flex flex-wrap items-center gap-4">
+          <Button asChild variant="outline" className="gap-2">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4" />
+              {t('backToGames')}
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-purple-600 flex-1">{t('title')}</h1>
+          <LocaleSwitcher />
+
+          <Select value={profileId} onValueChange={setProfileId}>
+            <SelectTrigger className="w-48" aria-label={t('player')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PROFILES}>{t('allPlayers')}</SelectItem>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.avatar} {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-36" aria-label={t('period')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((period) => (
+                <SelectItem key={period} value={String(period)}>
+                  {t('lastDays', { days: period })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-4">
+        {error && <p className="text-center text-red-600 py-12">{t('loadError')}</p>}
+        {!error && stats === null && <p className="text-center text-gray-500 py-12">{t('loading')}</p>}
+        {isEmpty && <p className="text-center text-gray-500 py-12">{t('empty')}</p>}
+
+        {stats && !isEmpty && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>{t('accuracyTitle')}</CardTitle>
+                <CardDescription>{t('accuracyDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={accuracyConfig} className="h-64 w-full">
+                  <LineChart data={stats.accuracy}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {GAME_MODULES.map((gameModule) => (
+                      <Line
+                        key={gameModule.id}
+                        dataKey={gameModule.id}
+                        stroke={`var(--color-${gameModule.id})`}
+                        strokeWidth={2}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('playTimeTitle')}</CardTitle>
+                <CardDescription>{t('playTimeDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={playTimeConfig} className="h-56 w-full">
+                  <BarChart data={stats.playTime}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('levelsTitle')}</CardTitle>
+                <CardDescription>{t('levelsDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {GAME_MODULES.map((gameModule) => {
+                  const level = stats.levels.find(l => l.gameId === gameModule.id)?.level ?? 0
+                  return (
+                    <div key={gameModule.id}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>{gameModule.icon} {tGames(`${gameModule.id}.title`)}</span>
+                        <span className="text-gray-500">{level}/{gameModule.maxLevel}</span>
+                      </div>
+                      <Progress value={(level / gameModule.maxLevel) * 100} />
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>{t('missedTitle')}</CardTitle>
+                <CardDescription>{t('missedDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.missed.length === 0 ? (
+                  <p className="text-gray-500 text-sm">{t('noMistakes')}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('game')}</TableHead>
+                        <TableHead>{t('item')}</TableHead>
+                        <TableHead className="text-right">{t('mistakes')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stats.missed.map((missed) => (
+                        <TableRow key={`${missed.gameId}:${missed.item}`}>
+                          <TableCell>{getGameModule(missed.gameId) ? tGames(`${missed.gameId}.title`) : missed.gameId}</TableCell>
+                          <TableCell className="text-xl">{missed.item}</TableCell>
+                          <TableCell className="text-right">{missed.count}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>{t('assistsTitle')}</CardTitle>
+                <CardDescription>{t('assistsDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.assists.length === 0 ? (
+                  <p className="text-gray-500 text-sm">{t('noAssists')}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('game')}</TableHead>
+                        <TableHead className="text-right">{t('assists')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stats.assists.map((assist) => (
+                        <TableRow key={assist.gameId}>
+                          <TableCell>{getGameModule(assist.gameId) ? tGames(`${assist.gameId}.title`) : assist.gameId}</TableCell>
+                          <TableCell className="text-right">{assist.count}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {sessions.length > 0 && (
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle>{t('sessionsTitle')}</CardTitle>
+              <CardDescription>{t('sessionsDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('game')}</TableHead>
+                    <TableHead>{t('playedAt')}</TableHead>
+                    <TableHead className="text-right">{t('score')}</TableHead>
+                    <TableHead className="text-right">{t('level')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell>
+                        {getGameModule(session.gameId)?.icon}{' '}
+                        {getGameModule(session.gameId) ? tGames(`${session.gameId}.title`) : session.gameId}
+                      </TableCell>
+                      <TableCell>
+                        {format.dateTime(new Date(session.startedAt), { dateStyle: 'short', timeStyle: 'short' })}
+                      </TableCell>
+                      <TableCell className="text-right">{session.score}</TableCell>
+                      <TableCell className="text-right">{session.levelReached}</TableCell>
+                      <TableCell className="text-right">
+                        <Button asChild variant="ghost" size="sm" className="gap-1">
+                          <Link href={`/parents/replay/${session.id}`}>
+                            <PlayCircle className="w-4 h-4" />
+                            {t('watch')}
+                          </Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useFormatter, useTranslations } from 'next-intl'
+import { ArrowLeft, Pause, Play, SkipBack, SkipForward } from 'lucide-react'
+import { LocaleSwitcher } from '@/components/locale-switcher'
+import { getGameModule } from '@/components/games/registry'
+import { SettingsProvider } from '@/components/settings/settings-provider'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Slider } from '@/components/ui/slider'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import type { GameContent } from '@/lib/content/schema'
+import { DEFAULT_SETTINGS } from '@/lib/profiles/schema'
+import { fetchSessionLog } from '@/lib/replay/client'
+import { buildReplayFrames } from '@/lib/replay/frames'
+import type { SessionLog } from '@/lib/replay/schema'
+import { formatGameCode, parseSeed } from '@/lib/rng'
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4]
+
+// How often the playback clock moves
+const TICK_MS = 100
+
+// Replays are silent: the sounds belong to the game, not to the parents' screen
+const REPLAY_SETTINGS = { ...DEFAULT_SETTINGS, soundEnabled: false }
+
+// "83000" -> "1:23"
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+// Code that reproduces the session in the game (/?game=<id>&seed=<code>), with its board levels
+const gameCode = (session: SessionLog) => {
+  const seed = parseSeed(session.seed)
+  if (seed === null) return session.seed
+  const played = Math.max(0, ...session.levels.map(level => level.level))
+  const boardLevels = Array.from({ length: played }, (_, index) =>
+    session.levels.find(level => level.level === index + 1)?.boardLevel ?? index + 1)
+  return formatGameCode(seed, boardLevels)
+}
+
+interface ReplayViewerProps {
+  sessionId: string
+  content: GameContent
+}
+
+// Plays a recorded session back tap by tap, rebuilding every board from the logged actions
+export function ReplayViewer({ sessionId, content }: ReplayViewerProps) {
+  const t = useTranslations('parents')
+  const tGames = useTranslations('games')
+  const format = useFormatter()
+  const [session, setSession] = useState<SessionLog | null>(null)
+  const [error, setError] = useState(false)
+  const [position, setPosition] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+
+  useEffect(() => {
+    fetchSessionLog(sessionId)
+      .then(setSession)
+      .catch(err => {
+        console.error('Could not load the session:', err)
+        setError(true)
+      })
+  }, [sessionId])
+
+  const game = getGameModule(session?.gameId ?? null)
+  const frames = useMemo(
+    () => (session && game ? buildReplayFrames(game, content, session) : []),
+    [session, game, content]
+  )
+  const duration = frames.length > 0 ? frames[frames.length - 1].at : 0
+
+  // Last frame shown at the current position
+  let frameIndex = 0
+  while (frameIndex + 1 < frames.length && frames[frameIndex + 1].at <= position) frameIndex++
+  const frame = frames[frameIndex]
+
+  useEffect(() => {
+    if (!playing) return
+    const interval = setInterval(() => {
+      setPosition(prev => Math.min(prev + TICK_MS * speed, duration))
+    }, TICK_MS)
+    return () => clearInterval(interval)
+  }, [playing, speed, duration])
+
+  useEffect(() => {
+    if (position >= duration) setPlaying(false)
+  }, [position, duration])
+
+  const togglePlaying = () => {
+    // Playing again from the end starts over
+    if (!playing && position >= duration) setPosition(0)
+    setPlaying(!playing)
+  }
+
+  const jumpTo = (index: number) => {
+    const target = frames[Math.min(Math.max(index, 0), frames.length - 1)]
+    if (target) setPosition(target.at)
+  }
+
+  const describeFrame = () => {
+    if (!frame) return null
+    if (frame.assisted) return t('replay.assist')
+    if (frame.hinted) return t('replay.hint')
+    if (frame.action === undefined) {
+      return frame === frames.find(other => other.level === frame.level) ? t('replay.levelStart') : t('replay.settled')
+    }
+    return (
+      <span className="flex items-center gap-2">
+        <code className="text-sm bg-gray-100 rounded px-2 py-1">{JSON.stringify(frame.action)}</code>
+        {frame.result && (
+          <Badge variant={frame.result === 'correct' ? 'default' : 'destructive'}>{t(`replay.${frame.result}`)}</Badge>
+        )}
+      </span>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow">
+        <div className="max-w-5xl mx-auto p-4 flex flex-wrap items-center gap-4">
+          <Button asChild variant="outline" className="gap-2">
+            <Link href="/parents">
+              <ArrowLeft className="w-4 h-4" />
+              {t('title')}
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-purple-600 flex-1">{t('replay.title')}</h1>
+          <LocaleSwitcher />
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-4 space-y-4">
+        {error && <p className="text-center text-red-600 py-12">{t('loadError')}</p>}
+        {!error && session === null && <p className="text-center text-gray-500 py-12">{t('loading')}</p>}
+        {session && frames.length === 0 && <p className="text-center text-gray-500 py-12">{t('replay.empty')}</p>}
+
+        {session && game && frame && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>{game.icon} {tGames(`${game.id}.title`)}</CardTitle>
+                <CardDescription>
+                  {format.dateTime(new Date(session.startedAt), { dateStyle: 'medium', timeStyle: 'short' })}
+                  {' • '}
+                  {t('replay.summary', { score: session.score, level: session.levelReached, seed: gameCode(session) })}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button
+                    onClick={() => jumpTo(frameIndex - 1)}
+                    variant="outline"
+                    size="icon"
+                    aria-label={t('replay.previous')}
+                  >
+                    <SkipBack className="w-4 h-4" />
+                  </Button>
+                  <Button onClick={togglePlaying} size="icon" aria-label={playing ? t('replay.pause') : t('replay.play')}>
+                    {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    onClick={() => jumpTo(frameIndex + 1)}
+                    variant="outline"
+                    size="icon"
+                    aria-label={t('replay.next')}
+                  >
+                    <SkipForward className="w-4 h-4" />
+                  </Button>
+                  <span className="text-sm text-gray-500 tabular-nums w-24 text-center">
+                    {formatTime(position)} / {formatTime(duration)}
+                  </span>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    aria-label={t('replay.speed')}
+                    value={String(speed)}
+                    onValueChange={(value) => value && setSpeed(Number(value))}
+                    className="ml-auto"
+                  >
+                    {PLAYBACK_SPEEDS.map((option) => (
+                      <ToggleGroupItem key={option} value={String(option)} className="px-3">
+                        {option}×
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+                <Slider
+                  aria-label={t('replay.position')}
+                  min={0}
+                  max={Math.max(duration, 1)}
+                  step={TICK_MS}
+                  value={[position]}
+                  onValueChange={([value]) => setPosition(value)}
+                />
+                <div className="flex flex-wrap items-center gap-3 text-sm" aria-live="polite">
+                  <Badge variant="outline">
+                    {t('replay.level', { level: frame.level })}
+                  </Badge>
+                  <span className="text-gray-500 tabular-nums">{formatTime(frame.at)}</span>
+                  {describeFrame()}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* The board as the player saw it; it can't be played */}
+            <div inert className="rounded-xl p-4 bg-gradient-to-br from-blue-400 via-purple-400 to-pink-300 min-h-[28rem]">
+              <SettingsProvider settings={REPLAY_SETTINGS} onChange={() => {}}>
+                <div key={frame.level} className="h-full">
+                  {game.render({
+                    state: frame.state,
+                    level: frame.level,
+                    maxLevel: game.maxLevel,
+                    dispatch: () => {},
+                    nameOf: (symbol) => content.names[symbol] ?? symbol,
+                    pace: 1
+                  })}
+                </div>
+              </SettingsProvider>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
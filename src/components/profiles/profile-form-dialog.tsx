@@ -0,0 +1,109 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AVATARS, createProfileSchema, type ChildProfile, type CreateProfileInput } from '@/lib/profiles/schema'
+
+interface ProfileFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Profile being edited; a new one is created when missing
+  profile?: ChildProfile | null
+  onSave: (input: CreateProfileInput) => Promise<unknown>
+}
+
+export function ProfileFormDialog({ open, onOpenChange, profile, onSave }: ProfileFormDialogProps) {
+  const t = useTranslations('profiles')
+  const [name, setName] = useState('')
+  const [avatar, setAvatar] = useState(AVATARS[0])
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setName(profile?.name ?? '')
+    setAvatar(profile?.avatar ?? AVATARS[0])
+    setError(null)
+  }, [open, profile])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const result = createProfileSchema.safeParse({ name, avatar })
+    if (!result.success) {
+      setError(t('nameError'))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await onSave(result.data)
+      onOpenChange(false)
+    } catch (err) {
+      console.error('Could not save profile:', err)
+      setError(t('saveError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{profile ? t('editTitle') : t('newPlayer')}</DialogTitle>
+            <DialogDescription>{t('formDescription')}</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-6 gap-2" role="radiogroup" aria-label={t('avatar')}>
+            {AVATARS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={avatar === option}
+                onClick={() => setAvatar(option)}
+                className={`
+                  aspect-square rounded-xl text-3xl transition-all
+                  ${avatar === option ? 'bg-purple-200 ring-4 ring-purple-400' : 'bg-gray-100 hover:bg-gray-200'}
+                `}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">{t('name')}</Label>
+            <Input
+              id="profile-name"
+              value={name}
+              maxLength={20}
+              autoComplete="off"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="submit" disabled={saving} className="bg-purple-500 hover:bg-purple-600">
+              {t('save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,88 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { Pencil, Plus } from 'lucide-react'
+import { LocaleSwitcher } from '@/components/locale-switcher'
+import { Card } from '@/components/ui/card'
+import type { ChildProfile, CreateProfileInput } from '@/lib/profiles/schema'
+import { ProfileFormDialog } from './profile-form-dialog'
+
+interface ProfilePickerProps {
+  profiles: ChildProfile[]
+  loading: boolean
+  onSelect: (profile: ChildProfile) => void
+  onSave: (input: CreateProfileInput, id?: string) => Promise<ChildProfile>
+}
+
+// "Who is playing?" screen shown before the game menu
+export function ProfilePicker({ profiles, loading, onSelect, onSave }: ProfilePickerProps) {
+  const t = useTranslations('profiles')
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<ChildProfile | null>(null)
+
+  const openForm = (profile: ChildProfile | null) => {
+    setEditing(profile)
+    setFormOpen(true)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-400 via-pink-400 to-orange-300 flex flex-col">
+      <header className="p-6 text-center">
+        <div className="flex justify-end max-w-3xl mx-auto">
+          <LocaleSwitcher />
+        </div>
+        <div className="text-6xl mb-4">👋</div>
+        <h1
+          className="text-4xl md:text-5xl font-bold text-white mb-2 drop-shadow-lg"
+          style={{ fontFamily: 'Comic Sans MS, cursive, sans-serif' }}
+        >
+          {t('title')}
+        </h1>
+      </header>
+
+      <main className="flex-1 px-4 pb-8">
+        <div className="max-w-3xl mx-auto grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          {profiles.map((profile) => (
+            <motion.div key={profile.id} whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} className="relative">
+              <button onClick={() => onSelect(profile)} className="w-full">
+                <Card className="p-6 bg-white/95 shadow-xl items-center gap-2">
+                  <span className="text-6xl">{profile.avatar}</span>
+                  <span className="text-lg font-bold text-purple-600 truncate max-w-full">{profile.name}</span>
+                </Card>
+              </button>
+              <button
+                onClick={() => openForm(profile)}
+                aria-label={t('edit', { name: profile.name })}
+                className="absolute top-2 right-2 p-2 rounded-full bg-white/90 shadow hover:bg-gray-100"
+              >
+                <Pencil className="w-4 h-4 text-gray-600" />
+              </button>
+            </motion.div>
+          ))}
+
+          <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+            <button onClick={() => openForm(null)} className="w-full h-full">
+              <Card className="p-6 h-full bg-white/60 border-dashed border-4 border-white shadow-xl items-center justify-center gap-2">
+                <Plus className="w-12 h-12 text-purple-600" />
+                <span className="text-lg font-bold text-purple-600">{t('newPlayer')}</span>
+              </Card>
+            </button>
+          </motion.div>
+        </div>
+
+        {loading && profiles.length === 0 && (
+          <p className="text-center text-white text-lg mt-6 drop-shadow">{t('loading')}</p>
+        )}
+      </main>
+
+      <ProfileFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        profile={editing}
+        onSave={(input) => onSave(input, editing?.id)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import {
+  HINT_BUDGETS,
+  SIMON_PALETTES,
+  SPEEDS,
+  type ProfileSettings,
+  type SimonPalette,
+  type Speed
+} from '@/lib/profiles/schema'
+import { useSettings } from './settings-provider'
+
+type VolumeKey = 'masterVolume' | 'effectsVolume' | 'musicVolume' | 'voiceVolume'
+type SpeedKey = 'animationSpeed' | 'simonSpeed' | 'feedbackDelay' | 'scanSpeed'
+type SwitchKey = 'simonShapes' | 'simonDistinctTones' | 'simonPitchOnly'
+
+const VOLUMES: VolumeKey[] = ['masterVolume', 'effectsVolume', 'musicVolume', 'voiceVolume']
+const SPEED_SETTINGS: SpeedKey[] = ['animationSpeed', 'simonSpeed', 'feedbackDelay']
+const SIMON_SWITCHES: SwitchKey[] = ['simonShapes', 'simonDistinctTones', 'simonPitchOnly']
+
+interface SettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Name of the profile the settings are saved for, if any
+  profileName?: string
+}
+
+export function SettingsDialog({ open, onOpenChange, profileName }: SettingsDialogProps) {
+  const t = useTranslations('settings')
+  const { settings, updateSettings } = useSettings()
+
+  const update = <K extends keyof ProfileSettings>(key: K, value: ProfileSettings[K]) => {
+    updateSettings({ [key]: value })
+  }
+
+  const renderSpeed = (key: SpeedKey) => (
+    <div key={key} className="space-y-2">
+      <Label id={`settings-${key}`}>{t(key)}</Label>
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        aria-labelledby={`settings-${key}`}
+        value={settings[key]}
+        // Radix reports an empty value when the pressed item is clicked again
+        onValueChange={(value) => value && update(key, value as Speed)}
+        className="w-full"
+      >
+        {SPEEDS.map((speed) => (
+          <ToggleGroupItem key={speed} value={speed} className="flex-1">
+            {t(`speeds.${speed}`)}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('title')}</DialogTitle>
+          <DialogDescription>
+            {profileName ? t('savedFor', { name: profileName }) : t('savedOnDevice')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="settings-sound">{t('soundEnabled')}</Label>
+            <Switch
+              id="settings-sound"
+              checked={settings.soundEnabled}
+              onCheckedChange={(checked) => update('soundEnabled', checked)}
+            />
+          </div>
+
+          {VOLUMES.map((key) => (
+            <div key={key} className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <Label id={`settings-${key}`}>{t(key)}</Label>
+                <span className="text-gray-500">{Math.round(settings[key] * 100)}%</span>
+              </div>
+              <Slider
+                aria-labelledby={`settings-${key}`}
+                min={0}
+                max={100}
+                step={5}
+                value={[Math.round(settings[key] * 100)]}
+                onValueChange={([value]) => update(key, value / 100)}
+                disabled={!settings.soundEnabled}
+              />
+            </div>
+          ))}
+
+          {SPEED_SETTINGS.map(renderSpeed)}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="settings-motion">{t('reduceMotion')}</Label>
+            <Switch
+              id="settings-motion"
+              checked={settings.reduceMotion}
+              onCheckedChange={(checked) => update('reduceMotion', checked)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="settings-scanning">{t('switchScanning')}</Label>
+              <p className="text-sm text-gray-500">{t('switchScanningHint')}</p>
+            </div>
+            <Switch
+              id="settings-scanning"
+              checked={settings.switchScanning}
+              onCheckedChange={(checked) => update('switchScanning', checked)}
+            />
+          </div>
+
+          {settings.switchScanning && renderSpeed('scanSpeed')}
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="settings-adaptive">{t('adaptiveDifficulty')}</Label>
+              <p className="text-sm text-gray-500">{t('adaptiveDifficultyHint')}</p>
+            </div>
+            <Switch
+              id="settings-adaptive"
+              checked={settings.adaptiveDifficulty}
+              onCheckedChange={(checked) => update('adaptiveDifficulty', checked)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="settings-assist">{t('assistMode')}</Label>
+              <p className="text-sm text-gray-500">{t('assistModeHint')}</p>
+            </div>
+            <Switch
+              id="settings-assist"
+              checked={settings.assistMode}
+              onCheckedChange={(checked) => update('assistMode', checked)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label id="settings-hintsPerLevel">{t('hintsPerLevel')}</Label>
+            <p className="text-sm text-gray-500">{t('hintsPerLevelHint')}</p>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              aria-labelledby="settings-hintsPerLevel"
+              value={String(settings.hintsPerLevel)}
+              onValueChange={(value) => value && update('hintsPerLevel', Number(value))}
+              className="w-full"
+            >
+              {HINT_BUDGETS.map((budget) => (
+                <ToggleGroupItem key={budget} value={String(budget)} className="flex-1">
+                  {budget === 0 ? t('hintsOff') : budget}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-4 border-t pt-4">
+            <h3 className="font-semibold">{t('simonAccessibility')}</h3>
+
+            <div className="space-y-2">
+              <Label id="settings-simonPalette">{t('simonPalette')}</Label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                aria-labelledby="settings-simonPalette"
+                value={settings.simonPalette}
+                onValueChange={(value) => value && update('simonPalette', value as SimonPalette)}
+                disabled={settings.simonPitchOnly}
+                className="w-full flex-wrap"
+              >
+                {SIMON_PALETTES.map((palette) => (
+                  <ToggleGroupItem key={palette} value={palette} className="flex-1">
+                    {t(`palettes.${palette}`)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            {SIMON_SWITCHES.map((key) => {
+              // Playing by ear always uses the distinct tones
+              const forced = key === 'simonDistinctTones' && settings.simonPitchOnly
+              return (
+                <div key={key} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`settings-${key}`}>{t(key)}</Label>
+                    {key === 'simonPitchOnly' && <p className="text-sm text-gray-500">{t('simonPitchOnlyHint')}</p>}
+                  </div>
+                  <Switch
+                    id={`settings-${key}`}
+                    checked={settings[key] || forced}
+                    onCheckedChange={(checked) => update(key, checked)}
+                    disabled={forced}
+                  />
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
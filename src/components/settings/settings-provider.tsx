@@ -0,0 +1,62 @@
+'use client'
+
+import { createContext, useContext, useEffect, type ReactNode } from 'react'
+import { MotionConfig } from 'framer-motion'
+import { setChannelVolume, setMasterVolume } from '@/lib/audio/engine'
+import { DEFAULT_SETTINGS, SPEED_FACTORS, type ProfileSettings } from '@/lib/profiles/schema'
+import { setDistinctSimonTones, setSoundEnabled } from '@/lib/sound'
+
+// Durations scaled by the speed settings
+export function getTiming(settings: ProfileSettings) {
+  return {
+    // Seconds, for framer-motion transitions
+    animation: (seconds: number) => seconds * SPEED_FACTORS[settings.animationSpeed],
+    // Milliseconds
+    simon: (ms: number) => Math.round(ms * SPEED_FACTORS[settings.simonSpeed]),
+    feedback: (ms: number) => Math.round(ms * SPEED_FACTORS[settings.feedbackDelay]),
+    scan: (ms: number) => Math.round(ms * SPEED_FACTORS[settings.scanSpeed])
+  }
+}
+
+export type Timing = ReturnType<typeof getTiming>
+
+interface SettingsContextValue {
+  settings: ProfileSettings
+  updateSettings: (settings: Partial<ProfileSettings>) => void
+  timing: Timing
+}
+
+const SettingsContext = createContext<SettingsContextValue>({
+  settings: DEFAULT_SETTINGS,
+  updateSettings: () => {},
+  timing: getTiming(DEFAULT_SETTINGS)
+})
+
+interface SettingsProviderProps {
+  settings: ProfileSettings
+  onChange: (settings: Partial<ProfileSettings>) => void
+  children: ReactNode
+}
+
+// Shares the active profile's settings with every screen and game, and applies the audio ones
+export function SettingsProvider({ settings, onChange, children }: SettingsProviderProps) {
+  useEffect(() => {
+    setSoundEnabled(settings.soundEnabled)
+    setMasterVolume(settings.masterVolume)
+    setChannelVolume('effects', settings.effectsVolume)
+    setChannelVolume('music', settings.musicVolume)
+    setChannelVolume('voice', settings.voiceVolume)
+    // Following the sequence by ear needs tones that are easy to tell apart
+    setDistinctSimonTones(settings.simonDistinctTones || settings.simonPitchOnly)
+  }, [settings])
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings: onChange, timing: getTiming(settings) }}>
+      <MotionConfig reducedMotion={settings.reduceMotion ? 'always' : 'user'}>
+        {children}
+      </MotionConfig>
+    </SettingsContext.Provider>
+  )
+}
+
+export const useSettings = () => useContext(SettingsContext)
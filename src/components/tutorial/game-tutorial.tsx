@@ -0,0 +1,244 @@
+'use client'
+
+import { useEffect, useRef, useState, type ReactNode, type RefObject } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { Play, SkipForward } from 'lucide-react'
+import { SpokenText } from '@/components/games/spoken-text'
+import type { GameModule } from '@/components/games/types'
+import { useSettings } from '@/components/settings/settings-provider'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { useSpeech } from '@/hooks/use-speech'
+import type { GameContent } from '@/lib/content/schema'
+import { createRng, deriveSeed } from '@/lib/rng'
+import { playSound } from '@/lib/sound'
+
+// Fixed boards, so the demo always plays the same way
+const DEMO_SEED = 1
+const PRACTICE_SEED = 2
+
+// Pause before the ghost hand moves to its next tap
+const DEMO_PAUSE_MS = 900
+// Seconds the hand takes to get there
+const HAND_MOVE_S = 0.6
+// Pause after the demo before the practice round starts
+const DEMO_END_MS = 1500
+// Time the child can think in the practice round before the hand shows the way
+const GUIDE_AFTER_MS = 4000
+
+type Phase = 'demo' | 'practice' | 'done'
+
+interface HandPosition {
+  x: number
+  y: number
+  pressing: boolean
+}
+
+// Centre of a board item, relative to the area the hand moves in
+const pointAt = (area: HTMLElement | null, index: number, pressing = false): HandPosition | null => {
+  const item = area?.querySelector<HTMLElement>(`[data-roving-index="${index}"]`)
+  if (!area || !item) return null
+  const box = area.getBoundingClientRect()
+  const rect = item.getBoundingClientRect()
+  return { x: rect.left - box.left + rect.width / 2, y: rect.top - box.top + rect.height / 2, pressing }
+}
+
+// A level 1 board played outside of a session: nothing is recorded or scored
+function useTutorialBoard(game: GameModule, content: GameContent, seed: number) {
+  const { timing } = useSettings()
+  const [board, setBoard] = useState<unknown>(() => game.init(1, content, createRng(deriveSeed(seed, game.id, 1))))
+  const [complete, setComplete] = useState(false)
+  const boardRef = useRef(board)
+  const timingRef = useRef(timing)
+  timingRef.current = timing
+  const timeoutsRef = useRef<ReturnType<typeof setTimeout>[]>([])
+
+  useEffect(() => () => timeoutsRef.current.forEach(clearTimeout), [])
+
+  const update = (next: unknown) => {
+    boardRef.current = next
+    setBoard(next)
+  }
+
+  const dispatch = (action: unknown) => {
+    const evaluation = game.evaluate(boardRef.current, action, 1)
+    update(evaluation.state)
+    const sound = evaluation.sound ?? evaluation.result
+    if (sound) playSound(sound)
+
+    if (evaluation.levelComplete) {
+      setComplete(true)
+    } else if (evaluation.settle) {
+      const settle = evaluation.settle
+      timeoutsRef.current.push(setTimeout(() => {
+        if (settle.state !== undefined) update(settle.state)
+        if (settle.sound) playSound(settle.sound)
+        if (settle.levelComplete) setComplete(true)
+      }, timingRef.current.feedback(settle.after)))
+    }
+  }
+
+  return { board, complete, dispatch }
+}
+
+interface GameTutorialProps {
+  game: GameModule
+  content: GameContent
+  // Called when the tutorial is finished or skipped
+  onFinish: () => void
+}
+
+// First-play tutorial: a ghost hand plays a small board while the goal is read aloud, then the child
+// plays one with the hand showing the way whenever they get stuck
+export function GameTutorial({ game, content, onFinish }: GameTutorialProps) {
+  const t = useTranslations()
+  const speak = useSpeech()
+  const { timing } = useSettings()
+  const [phase, setPhase] = useState<Phase>('demo')
+  const [hand, setHand] = useState<HandPosition | null>(null)
+  const demo = useTutorialBoard(game, content, DEMO_SEED)
+  const practice = useTutorialBoard(game, content, PRACTICE_SEED)
+  const areaRef = useRef<HTMLDivElement>(null)
+  const nameOf = (symbol: string) => content.names[symbol] ?? symbol
+
+  const goal = t(`tutorial.goals.${game.id}`)
+  const prompt = phase === 'demo' ? goal : phase === 'practice' ? t('tutorial.yourTurn') : t('tutorial.ready')
+
+  useEffect(() => {
+    speak(prompt)
+  }, [phase])
+
+  // Demo: the hand moves to the next right answer and taps it
+  useEffect(() => {
+    if (phase !== 'demo') return
+    if (demo.complete) {
+      setHand(null)
+      const timeout = setTimeout(() => setPhase('practice'), timing.feedback(DEMO_END_MS))
+      return () => clearTimeout(timeout)
+    }
+
+    const index = game.tutorial?.nextTap(demo.board) ?? null
+    if (index === null) return
+    const tapAt = timing.feedback(DEMO_PAUSE_MS) + timing.animation(HAND_MOVE_S) * 1000
+    const timeouts = [
+      setTimeout(() => setHand(pointAt(areaRef.current, index)), timing.feedback(DEMO_PAUSE_MS)),
+      setTimeout(() => {
+        setHand(pointAt(areaRef.current, index, true))
+        areaRef.current?.querySelector<HTMLElement>(`[data-roving-index="${index}"]`)?.click()
+      }, tapAt)
+    ]
+    return () => timeouts.forEach(clearTimeout)
+  }, [phase, demo.board, demo.complete])
+
+  // Practice: the hand only points, and only when the child seems stuck
+  useEffect(() => {
+    if (phase !== 'practice') return
+    setHand(null)
+    if (practice.complete) {
+      playSound('win')
+      setPhase('done')
+      return
+    }
+
+    const index = game.tutorial?.nextTap(practice.board) ?? null
+    if (index === null) return
+    const timeout = setTimeout(() => setHand(pointAt(areaRef.current, index)), GUIDE_AFTER_MS)
+    return () => clearTimeout(timeout)
+  }, [phase, practice.board, practice.complete])
+
+  const current = phase === 'demo' ? demo : practice
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-400 via-purple-400 to-pink-300 flex flex-col">
+      <header className="p-4 bg-white/95 shadow-lg">
+        <div className="flex items-center justify-between gap-4 max-w-4xl mx-auto">
+          <h1 className={`text-xl md:text-2xl font-bold ${game.theme.title}`}>
+            {game.icon} {t('tutorial.title', { game: t(`games.${game.id}.title`) })}
+          </h1>
+          {phase !== 'done' && (
+            <Button onClick={onFinish} variant="outline" size="lg" className="gap-2">
+              <SkipForward className="w-5 h-5" />
+              {t('tutorial.skip')}
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center p-4 gap-4">
+        <Card className="w-full max-w-2xl p-4 bg-white/95 flex flex-col items-center gap-2 text-center">
+          <Badge variant={phase === 'demo' ? 'secondary' : 'default'} className="text-base px-3 py-1">
+            {t(`tutorial.phases.${phase}`)}
+          </Badge>
+          <SpokenText text={prompt} className="text-lg font-semibold text-gray-700" />
+        </Card>
+
+        {phase === 'done' ? (
+          <motion.div
+            initial={{ scale: 0.8, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="flex flex-col items-center gap-4 mt-8"
+          >
+            <div className="text-7xl">🎉</div>
+            <Button onClick={onFinish} size="lg" className={`gap-2 text-white text-xl px-8 py-6 ${game.theme.button}`}>
+              <Play className="w-6 h-6" />
+              {t('tutorial.start')}
+            </Button>
+          </motion.div>
+        ) : (
+          <TutorialArea areaRef={areaRef} hand={hand} watching={phase === 'demo'}>
+            {/* Keyed so the practice board starts fresh (Simon plays its sequence on mount) */}
+            <div key={phase} className="h-full">
+              {game.render({
+                state: current.board,
+                level: 1,
+                maxLevel: game.maxLevel,
+                dispatch: current.dispatch,
+                nameOf,
+                pace: 1
+              })}
+            </div>
+          </TutorialArea>
+        )}
+      </main>
+    </div>
+  )
+}
+
+interface TutorialAreaProps {
+  areaRef: RefObject<HTMLDivElement | null>
+  hand: HandPosition | null
+  // The demo plays itself, so the board can't be played meanwhile
+  watching: boolean
+  children: ReactNode
+}
+
+// The board with the ghost hand over it
+function TutorialArea({ areaRef, hand, watching, children }: TutorialAreaProps) {
+  const { timing } = useSettings()
+
+  return (
+    <div ref={areaRef} className="relative w-full max-w-3xl">
+      {/* Only the hand's taps (untrusted, from element.click) get through while watching */}
+      <div
+        className={watching ? 'scale-90 origin-top' : undefined}
+        onClickCapture={(event) => watching && event.isTrusted && event.stopPropagation()}
+        onKeyDownCapture={(event) => watching && event.stopPropagation()}
+      >
+        {children}
+      </div>
+      {hand && (
+        <motion.div
+          aria-hidden
+          className="absolute left-0 top-0 text-5xl pointer-events-none drop-shadow-lg opacity-90"
+          initial={false}
+          animate={{ x: hand.x - 18, y: hand.y - 6, scale: hand.pressing ? 0.8 : 1 }}
+          transition={{ duration: timing.animation(HAND_MOVE_S) }}
+        >
+          👆
+        </motion.div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { announce } from '@/components/live-announcer'
+import { toast } from '@/hooks/use-toast'
+import { newlyUnlocked, type Achievement } from '@/lib/achievements/catalog'
+import { fetchAchievements, saveUnlockedAchievement } from '@/lib/achievements/client'
+import type { AchievementProgress } from '@/lib/achievements/schema'
+import { applyEvent, emptyStats, mergeStats } from '@/lib/achievements/stats'
+import type { SessionEvent } from '@/lib/progress/events'
+
+// Progress kept on the device, so badges keep unlocking offline and for guests
+const cacheKey = (profileId?: string) => `kids-games:achievements:${profileId ?? 'guest'}`
+
+const emptyProgress = (): AchievementProgress => ({ stats: emptyStats(), unlocked: {} })
+
+const readCached = (profileId?: string): AchievementProgress => {
+  try {
+    const cached = JSON.parse(localStorage.getItem(cacheKey(profileId)) ?? 'null')
+    return cached ? { stats: { ...emptyStats(), ...cached.stats }, unlocked: cached.unlocked ?? {} } : emptyProgress()
+  } catch {
+    return emptyProgress()
+  }
+}
+
+// Badges of the player (a profile, or the guest when none is picked). Feed it session events with
+// `record`; new badges are saved and celebrated with a toast.
+export function useAchievements(profileId?: string) {
+  const t = useTranslations('achievements')
+  const [progress, setProgress] = useState<AchievementProgress>(emptyProgress)
+  const progressRef = useRef(progress)
+
+  // One toast for everything unlocked at once: only one toast is shown at a time
+  const celebrate = (earned: Achievement[]) => {
+    const titles = earned.map(achievement => `${achievement.icon} ${t(`items.${achievement.id}.title`)}`).join(', ')
+    const title = t('unlocked', { count: earned.length })
+    toast({ title, description: titles })
+    announce(`${title} ${titles}`)
+  }
+
+  // Unlocks whatever the stats have reached and stores the result
+  const store = useCallback((stats: AchievementProgress['stats'], unlocked: AchievementProgress['unlocked']) => {
+    const earned = newlyUnlocked(stats, unlocked)
+    const unlockedAt = new Date().toISOString()
+    const next = {
+      stats,
+      unlocked: { ...unlocked, ...Object.fromEntries(earned.map(achievement => [achievement.id, unlockedAt])) }
+    }
+
+    progressRef.current = next
+    setProgress(next)
+    localStorage.setItem(cacheKey(profileId), JSON.stringify(next))
+
+    if (earned.length > 0) {
+      if (profileId) earned.forEach(achievement => saveUnlockedAchievement(profileId, achievement.id, unlockedAt))
+      celebrate(earned)
+    }
+  }, [profileId])
+
+  useEffect(() => {
+    const cached = readCached(profileId)
+    progressRef.current = cached
+    setProgress(cached)
+    if (!profileId) return
+
+    let cancelled = false
+    fetchAchievements(profileId)
+      .then(server => {
+        if (cancelled) return
+        const local = progressRef.current
+        store(mergeStats(server.stats, local.stats), { ...local.unlocked, ...server.unlocked })
+      })
+      .catch(error => console.error('Could not load achievements:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [profileId, store])
+
+  const record = useCallback((event: SessionEvent) => {
+    const { stats, unlocked } = progressRef.current
+    store(applyEvent(stats, event), unlocked)
+  }, [store])
+
+  return { ...progress, record }
+}
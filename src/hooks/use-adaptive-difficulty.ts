@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { getGameModule } from '@/components/games/registry'
+import { fetchDifficulty, saveDifficulty } from '@/lib/adaptive/client'
+import {
+  LEVEL_WINDOW,
+  levelSample,
+  nextDifficulty,
+  type AnswerSample,
+  type BoardDifficulty,
+  type LevelSample
+} from '@/lib/adaptive/engine'
+import type { SessionEvent } from '@/lib/progress/events'
+
+// Kept on the device with the recent levels; the server only stores the current difficulty
+const cacheKey = (profileId?: string) => `kids-games:difficulty:${profileId ?? 'guest'}`
+
+interface GameTuning {
+  // Missing until the first level of the game was finished
+  difficulty?: BoardDifficulty
+  // Answers of the level being played
+  answers: AnswerSample[]
+  // Levels finished since the difficulty last changed
+  recent: LevelSample[]
+}
+
+type TuningCache = Record<string, GameTuning>
+
+const readCached = (profileId?: string): TuningCache => {
+  try {
+    return JSON.parse(localStorage.getItem(cacheKey(profileId)) ?? '{}')
+  } catch {
+    return {}
+  }
+}
+
+// Adaptive difficulty of the player's games. Feed it session events with `record`; `difficultyFor`
+// gives the difficulty of the next board (null before a game was played, when boards follow the level).
+export function useAdaptiveDifficulty(profileId?: string) {
+  const cacheRef = useRef<TuningCache>({})
+
+  const store = useCallback((next: TuningCache) => {
+    cacheRef.current = next
+    localStorage.setItem(cacheKey(profileId), JSON.stringify(next))
+  }, [profileId])
+
+  useEffect(() => {
+    cacheRef.current = readCached(profileId)
+    if (!profileId) return
+
+    let cancelled = false
+    fetchDifficulty(profileId)
+      .then(difficulty => {
+        if (cancelled) return
+        // The server has the difficulty reached on other devices too
+        const next = { ...cacheRef.current }
+        for (const [gameId, saved] of Object.entries(difficulty)) {
+          next[gameId] = { ...(next[gameId] ?? { answers: [], recent: [] }), difficulty: saved }
+        }
+        store(next)
+      })
+      .catch(error => console.error('Could not load the difficulty:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [profileId, store])
+
+  const difficultyFor = useCallback((gameId: string) => cacheRef.current[gameId]?.difficulty ?? null, [])
+
+  const record = useCallback((event: SessionEvent) => {
+    if (event.type === 'game-complete') return
+    const game = getGameModule(event.gameId)
+    if (!game) return
+    const tuning: GameTuning = cacheRef.current[event.gameId] ?? { answers: [], recent: [] }
+
+    // Answers of a level left unfinished don't count
+    if (event.type === 'start') {
+      if (tuning.answers.length > 0) store({ ...cacheRef.current, [event.gameId]: { ...tuning, answers: [] } })
+      return
+    }
+
+    if (event.type === 'answer') {
+      const answer = { correct: event.result === 'correct', responseMs: event.responseMs }
+      store({ ...cacheRef.current, [event.gameId]: { ...tuning, answers: [...tuning.answers, answer] } })
+      return
+    }
+
+    // A level without answers says nothing, so the boards keep following the level
+    const sample = levelSample(tuning.answers)
+    if (!sample) {
+      store({ ...cacheRef.current, [event.gameId]: { ...tuning, answers: [] } })
+      return
+    }
+
+    const current = tuning.difficulty ?? { level: event.boardLevel, pace: 1 }
+    const recent = [...tuning.recent, sample].slice(-LEVEL_WINDOW)
+    const next = nextDifficulty(current, recent, game)
+    const changed = next.level !== current.level || next.pace !== current.pace
+    // A new difficulty is judged on the levels played at it
+    store({ ...cacheRef.current, [event.gameId]: { difficulty: next, answers: [], recent: changed ? [] : recent } })
+    if (profileId && (changed || !tuning.difficulty)) saveDifficulty(profileId, event.gameId, next)
+  }, [profileId, store])
+
+  return { difficultyFor, record }
+}
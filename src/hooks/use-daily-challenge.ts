@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { dailyChallenge } from '@/lib/daily/challenge'
+import { fetchDailyDays, saveDailyCompletion } from '@/lib/daily/client'
+import { currentStreak, localDay } from '@/lib/dates'
+import type { SessionEvent } from '@/lib/progress/events'
+
+// Kept on the device, so the challenge can be finished offline and by guests
+const cacheKey = (profileId?: string) => `kids-games:daily:${profileId ?? 'guest'}`
+
+interface DailyCache {
+  // Days the whole challenge was finished
+  days: string[]
+  // Steps of the challenge of `day` finished so far
+  progress: { day: string; done: number }
+}
+
+const emptyCache = (): DailyCache => ({ days: [], progress: { day: '', done: 0 } })
+
+const readCached = (profileId?: string): DailyCache => {
+  try {
+    return { ...emptyCache(), ...JSON.parse(localStorage.getItem(cacheKey(profileId)) ?? '{}') }
+  } catch {
+    return emptyCache()
+  }
+}
+
+// Today's challenge of the player and the days it was finished. Feed it the events of the sessions
+// played for the challenge with `record`; each finished level of the next step moves it along.
+export function useDailyChallenge(profileId?: string) {
+  const [cache, setCache] = useState<DailyCache>(emptyCache)
+  const cacheRef = useRef(cache)
+  const today = localDay(new Date())
+  const steps = useMemo(() => dailyChallenge(today), [today])
+  const done = cache.progress.day === today ? cache.progress.done : 0
+
+  const store = useCallback((next: DailyCache) => {
+    cacheRef.current = next
+    setCache(next)
+    localStorage.setItem(cacheKey(profileId), JSON.stringify(next))
+  }, [profileId])
+
+  useEffect(() => {
+    const cached = readCached(profileId)
+    cacheRef.current = cached
+    setCache(cached)
+    if (!profileId) return
+
+    let cancelled = false
+    fetchDailyDays(profileId)
+      .then(days => {
+        if (cancelled) return
+        const local = cacheRef.current
+        store({ ...local, days: [...new Set([...local.days, ...days])].sort() })
+      })
+      .catch(error => console.error('Could not load the daily challenges:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [profileId, store])
+
+  const record = useCallback((event: SessionEvent) => {
+    if (event.type !== 'level-complete') return
+    const current = cacheRef.current
+    const day = localDay(new Date())
+    const finished = current.progress.day === day ? current.progress.done : 0
+    const challenge = dailyChallenge(day)
+    const step = challenge[finished]
+    if (!step || step.gameId !== event.gameId || step.level !== event.level) return
+
+    const progress = { day, done: finished + 1 }
+    const complete = progress.done === challenge.length
+    store({ days: complete ? [...new Set([...current.days, day])].sort() : current.days, progress })
+    if (complete && profileId) saveDailyCompletion(profileId, day)
+  }, [profileId, store])
+
+  return {
+    today,
+    steps,
+    done,
+    nextStep: steps[done] ?? null,
+    finished: done >= steps.length,
+    days: cache.days,
+    streak: currentStreak(cache.days, today),
+    record
+  }
+}
@@ -0,0 +1,377 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { getGameModule } from '@/components/games/registry'
+import { announce } from '@/components/live-announcer'
+import { ASSIST_ACTION, HINT_ACTION, type GameEvaluation, type GameModule, type StarRating } from '@/components/games/types'
+import type { Timing } from '@/components/settings/settings-provider'
+import type { BoardDifficulty } from '@/lib/adaptive/engine'
+import type { GameContent } from '@/lib/content/schema'
+import { startSessionRecording, type SessionRecording } from '@/lib/progress/client'
+import type { AttemptInput } from '@/lib/progress/schema'
+import type { SessionEvent } from '@/lib/progress/events'
+import { createRng, deriveSeed, formatSeed, randomSeed } from '@/lib/rng'
+import { playSound } from '@/lib/sound'
+
+export interface GameState {
+  type: string | null
+  level: number
+  maxLevel: number
+  score: number
+  attempts: number
+  // Every board of the session is built from this seed, so the session can be reproduced
+  seed: number
+  // Level each board was built for, by level (levels not played yet or skipped keep their own)
+  boardLevels: number[]
+  // Level the current board was built for; differs from `level` with adaptive difficulty
+  boardLevel: number
+  // Speed of the timed parts of the board (GameRenderProps.pace)
+  pace: number
+  // Hints still available in this level
+  hintsLeft: number
+}
+
+export interface StartGameOptions {
+  seed?: number
+  startLevel?: number
+  // Level after which the session ends (e.g. a single level of the daily challenge); defaults to the last one
+  lastLevel?: number
+  // Profile the session is recorded for
+  profileId?: string
+  // Recorded as a step of the daily challenge
+  daily?: boolean
+  // Difficulty of the next board (adaptive difficulty), asked when each level starts; without it the
+  // board follows the level
+  difficulty?: (gameId: string) => BoardDifficulty | null
+  // Level each board was built for, from the code of a session being reproduced (see formatGameCode)
+  boardLevels?: number[]
+  // Lets the game help after repeated mistakes (GameModule.assist)
+  assist?: boolean
+  // Hints the player may ask for in each level (GameModule.hint); none by default
+  hintsPerLevel?: number
+}
+
+const EMPTY_GAME_STATE: GameState = { type: null, level: 1, maxLevel: 1, score: 0, attempts: 0, seed: 0, boardLevels: [], boardLevel: 1, pace: 1, hintsLeft: 0 }
+
+// Delay before the next level starts while the level-complete modal is shown
+const LEVEL_ADVANCE_DELAY = 1500
+
+// Points a hint costs (never more than the level has scored)
+const HINT_PENALTY = 5
+
+// Running totals of the current level, saved when the level is finished
+interface LevelStats {
+  startedAt: number
+  score: number
+  answers: number
+  mistakes: number
+  // Times the game helped
+  assists: number
+  // Wrong answers since the last correct one or the last help
+  mistakesInRow: number
+  hints: number
+}
+
+const newLevelStats = (): LevelStats => ({
+  startedAt: Date.now(),
+  score: 0,
+  answers: 0,
+  mistakes: 0,
+  assists: 0,
+  mistakesInRow: 0,
+  hints: 0
+})
+
+// Runs the active GameModule: owns its board state, applies evaluations and advances levels.
+// Feedback delays (settles, level advance) are scaled by the feedback timing setting.
+// Answers and finished levels are also announced to screen readers, and reported to onEvent.
+export function useGameSession(content: GameContent, timing: Timing, onEvent?: (event: SessionEvent) => void) {
+  const t = useTranslations('game.announce')
+  const [gameState, setGameState] = useState<GameState>(EMPTY_GAME_STATE)
+  const [board, setBoard] = useState<unknown>(null)
+  const [showLevelCompleteModal, setShowLevelCompleteModal] = useState(false)
+  const [showWinModal, setShowWinModal] = useState(false)
+  // Rating of the level that was just finished, shown in the level-complete and win modals
+  const [levelStars, setLevelStars] = useState<StarRating>(1)
+
+  // Mirrors of the latest values for use inside timers
+  const gameRef = useRef<GameModule | null>(null)
+  const levelRef = useRef(1)
+  const lastLevelRef = useRef(1)
+  const boardLevelRef = useRef(1)
+  const boardLevelsRef = useRef<number[]>([])
+  const difficultyRef = useRef<StartGameOptions['difficulty']>(undefined)
+  const assistRef = useRef(false)
+  const hintsPerLevelRef = useRef(0)
+  // For response times
+  const lastActionAtRef = useRef(0)
+  const seedRef = useRef(0)
+  const boardRef = useRef<unknown>(null)
+  const scoreRef = useRef(0)
+  const levelStatsRef = useRef<LevelStats>(newLevelStats())
+  const recordingRef = useRef<SessionRecording | null>(null)
+  const timeoutsRef = useRef<ReturnType<typeof setTimeout>[]>([])
+  const timingRef = useRef(timing)
+  timingRef.current = timing
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  const emit = (event: SessionEvent) => onEventRef.current?.(event)
+
+  const schedule = (after: number, fn: () => void) => {
+    timeoutsRef.current.push(setTimeout(fn, after))
+  }
+
+  const clearScheduled = () => {
+    timeoutsRef.current.forEach(clearTimeout)
+    timeoutsRef.current = []
+  }
+
+  const updateBoard = (next: unknown) => {
+    boardRef.current = next
+    setBoard(next)
+  }
+
+  const startLevel = (game: GameModule, level: number) => {
+    const difficulty = difficultyRef.current?.(game.id)
+    const boardLevel = Math.min(Math.max(boardLevelsRef.current[level - 1] ?? difficulty?.level ?? level, 1), game.maxLevel)
+    const pace = difficulty?.pace ?? 1
+
+    gameRef.current = game
+    levelRef.current = level
+    boardLevelRef.current = boardLevel
+    levelStatsRef.current = newLevelStats()
+    lastActionAtRef.current = Date.now()
+    // The seed follows the level and the game code has the board levels, so a reproduced session
+    // gets the same boards
+    updateBoard(game.init(boardLevel, content, createRng(deriveSeed(seedRef.current, game.id, level))))
+    setGameState(prev => ({
+      ...prev,
+      type: game.id,
+      level,
+      maxLevel: game.maxLevel,
+      boardLevel,
+      boardLevels: Array.from({ length: Math.max(prev.boardLevels.length, level) }, (_, index) =>
+        index === level - 1 ? boardLevel : prev.boardLevels[index] ?? index + 1),
+      pace,
+      hintsLeft: hintsPerLevelRef.current
+    }))
+  }
+
+  // Auto-advance to next level after showing feedback
+  const completeLevel = () => {
+    const game = gameRef.current
+    if (!game) return
+
+    const stats = levelStatsRef.current
+    const durationMs = Date.now() - stats.startedAt
+    const stars = game.rate({ answers: stats.answers, mistakes: stats.mistakes, durationMs }, boardRef.current, boardLevelRef.current)
+    setLevelStars(stars)
+    recordingRef.current?.recordLevel({
+      level: levelRef.current,
+      score: stats.score,
+      attempts: stats.answers,
+      mistakes: stats.mistakes,
+      durationMs,
+      stars,
+      assists: stats.assists,
+      hints: stats.hints,
+      boardLevel: boardLevelRef.current
+    })
+    emit({ type: 'level-complete', gameId: game.id, level: levelRef.current, boardLevel: boardLevelRef.current, stars })
+
+    playSound('win')
+    if (levelRef.current < lastLevelRef.current) {
+      announce(t('levelComplete', { level: levelRef.current }))
+      setShowLevelCompleteModal(true)
+      schedule(timingRef.current.feedback(LEVEL_ADVANCE_DELAY), () => {
+        setShowLevelCompleteModal(false)
+        startLevel(game, levelRef.current + 1)
+      })
+    } else {
+      // All levels of the session completed; the game only counts as completed when its last level was played
+      const completed = levelRef.current === game.maxLevel
+      announce(t('win', { score: scoreRef.current }))
+      setShowWinModal(true)
+      finishRecording(completed)
+      if (completed) emit({ type: 'game-complete', gameId: game.id, score: scoreRef.current })
+    }
+  }
+
+  const finishRecording = (completed: boolean) => {
+    recordingRef.current?.finish({ score: scoreRef.current, levelReached: levelRef.current, completed })
+    recordingRef.current = null
+  }
+
+  // Every action is logged, answer or not, so the session can be replayed tap by tap
+  const recordAction = (attempt: Omit<AttemptInput, 'level' | 'boardLevel' | 'elapsedMs'>) => {
+    recordingRef.current?.recordAttempt({
+      ...attempt,
+      level: levelRef.current,
+      boardLevel: boardLevelRef.current === levelRef.current ? undefined : boardLevelRef.current,
+      elapsedMs: Date.now() - levelStatsRef.current.startedAt
+    })
+  }
+
+  // Applies the game's help to the board; logged like an action so replays show it
+  const giveAssist = () => {
+    const game = gameRef.current
+    const stats = levelStatsRef.current
+    const assisted = game?.assist?.apply(boardRef.current, boardLevelRef.current)
+    if (!assisted) return
+
+    stats.mistakesInRow = 0
+    stats.assists += 1
+    updateBoard(assisted)
+    recordAction({ action: ASSIST_ACTION, points: 0 })
+    announce(t('assist'))
+  }
+
+  // Shows the game's hint while the level has hints left; it costs a few points
+  const showHint = () => {
+    const game = gameRef.current
+    const stats = levelStatsRef.current
+    if (!game?.hint || boardRef.current === null || stats.hints >= hintsPerLevelRef.current) return
+    const hinted = game.hint.apply(boardRef.current, boardLevelRef.current)
+    if (!hinted) return
+
+    const penalty = Math.min(HINT_PENALTY, stats.score)
+    stats.hints += 1
+    stats.score -= penalty
+    scoreRef.current -= penalty
+    updateBoard(hinted)
+    recordAction({ action: HINT_ACTION, points: -penalty })
+    setGameState(prev => ({ ...prev, score: prev.score - penalty, hintsLeft: prev.hintsLeft - 1 }))
+    announce(t('hint'))
+
+    const clear = game.hint.clear
+    if (clear) {
+      const level = levelRef.current
+      schedule(timingRef.current.feedback(clear.after), () => {
+        // Skipped when the level was finished in the meantime
+        if (levelRef.current === level && boardRef.current !== null) updateBoard(clear.state(boardRef.current))
+      })
+    }
+  }
+
+  const applyEvaluation = (action: unknown, evaluation: GameEvaluation<unknown>) => {
+    updateBoard(evaluation.state)
+
+    const points = evaluation.points ?? 0
+    const stats = levelStatsRef.current
+    const now = Date.now()
+    const responseMs = now - lastActionAtRef.current
+    lastActionAtRef.current = now
+    scoreRef.current += points
+    recordAction({ action, result: evaluation.result, item: evaluation.item, points })
+    if (evaluation.result) {
+      stats.score += points
+      stats.answers += 1
+      if (evaluation.result === 'wrong') stats.mistakes += 1
+      stats.mistakesInRow = evaluation.result === 'wrong' ? stats.mistakesInRow + 1 : 0
+      if (gameRef.current) {
+        emit({ type: 'answer', gameId: gameRef.current.id, level: levelRef.current, result: evaluation.result, responseMs })
+      }
+    }
+
+    const sound = evaluation.sound ?? evaluation.result
+    if (sound) playSound(sound)
+    // A finished level is announced instead
+    if (evaluation.result && !evaluation.levelComplete) announce(t(evaluation.result))
+
+    if (evaluation.points || evaluation.attempt) {
+      setGameState(prev => ({
+        ...prev,
+        score: prev.score + (evaluation.points ?? 0),
+        attempts: prev.attempts + (evaluation.attempt ? 1 : 0)
+      }))
+    }
+
+    // Help comes once the board has settled, so it isn't undone by the settle
+    const assistDue = assistRef.current && gameRef.current?.assist !== undefined &&
+      stats.mistakesInRow >= gameRef.current.assist.after
+
+    if (evaluation.levelComplete) {
+      completeLevel()
+    } else if (evaluation.settle) {
+      const settle = evaluation.settle
+      schedule(timingRef.current.feedback(settle.after), () => {
+        if (settle.state !== undefined) updateBoard(settle.state)
+        if (settle.sound) playSound(settle.sound)
+        if (settle.levelComplete) completeLevel()
+        else if (assistDue) giveAssist()
+      })
+    } else if (assistDue) {
+      giveAssist()
+    }
+  }
+
+  const dispatch = useCallback((action: unknown) => {
+    const game = gameRef.current
+    if (!game || boardRef.current === null) return
+    applyEvaluation(action, game.evaluate(boardRef.current, action, boardLevelRef.current))
+  }, [])
+
+  // Start a game; pass a seed to replay a reported session, or a level to continue from
+  const startGame = (gameId: string, options: StartGameOptions = {}) => {
+    const game = getGameModule(gameId)
+    if (!game) return
+
+    const seed = options.seed ?? randomSeed()
+    const level = Math.min(Math.max(options.startLevel ?? 1, 1), game.maxLevel)
+    lastLevelRef.current = Math.min(Math.max(options.lastLevel ?? game.maxLevel, level), game.maxLevel)
+
+    clearScheduled()
+    finishRecording(false)
+    seedRef.current = seed
+    scoreRef.current = 0
+    difficultyRef.current = options.difficulty
+    boardLevelsRef.current = options.boardLevels ?? []
+    assistRef.current = options.assist ?? false
+    hintsPerLevelRef.current = options.hintsPerLevel ?? 0
+    recordingRef.current = startSessionRecording({
+      gameId: game.id,
+      seed: formatSeed(seed),
+      profileId: options.profileId,
+      daily: options.daily,
+      feedbackScale: timingRef.current.feedback(1000) / 1000
+    })
+    setShowWinModal(false)
+    setShowLevelCompleteModal(false)
+    setGameState({ ...EMPTY_GAME_STATE, type: game.id, seed })
+    startLevel(game, level)
+    emit({ type: 'start', gameId: game.id, at: Date.now() })
+  }
+
+  const stopGame = () => {
+    clearScheduled()
+    finishRecording(false)
+    gameRef.current = null
+    updateBoard(null)
+    setGameState(EMPTY_GAME_STATE)
+    setShowWinModal(false)
+    setShowLevelCompleteModal(false)
+  }
+
+  // Clean up timeouts on unmount
+  useEffect(() => clearScheduled, [])
+
+  const game = getGameModule(gameState.type)
+  // Whether the hint button does something right now
+  const hintAvailable = gameState.hintsLeft > 0 && board !== null &&
+    game?.hint?.apply(board, gameState.boardLevel) != null
+
+  return {
+    game,
+    gameState,
+    board,
+    dispatch,
+    showHint,
+    hintAvailable,
+    startGame,
+    stopGame,
+    showLevelCompleteModal,
+    showWinModal,
+    levelStars,
+    setShowWinModal
+  }
+}
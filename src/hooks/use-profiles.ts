@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  createProfile,
+  fetchProfileProgress,
+  fetchProfiles,
+  saveProfileSettings,
+  unsavedProfileSettings,
+  updateProfile
+} from '@/lib/profiles/client'
+import {
+  DEFAULT_SETTINGS,
+  parseProfileSettings,
+  type ChildProfile,
+  type CreateProfileInput,
+  type ProfileProgress,
+  type ProfileSettings
+} from '@/lib/profiles/schema'
+
+// Last known profiles, so the picker still works while the server is unreachable
+const PROFILES_CACHE_KEY = 'kids-games:profiles'
+
+// Dragging a volume slider changes settings many times a second; the server only gets the final values
+const SETTINGS_SAVE_DELAY = 500
+
+// Settings used when nobody has picked a profile (e.g. a replayed session)
+const GUEST_SETTINGS_KEY = 'kids-games:settings'
+
+const readCachedProfiles = (): ChildProfile[] => {
+  try {
+    const profiles: ChildProfile[] = JSON.parse(localStorage.getItem(PROFILES_CACHE_KEY) ?? '[]')
+    // Older caches may miss settings added since
+    return profiles.map(profile => ({ ...profile, settings: parseProfileSettings(profile.settings) }))
+  } catch {
+    return []
+  }
+}
+
+// The server's copy misses settings changed while offline, which are still queued
+const withUnsavedSettings = (profiles: ChildProfile[]) =>
+  profiles.map(profile => ({ ...profile, settings: { ...profile.settings, ...unsavedProfileSettings(profile.id) } }))
+
+const cacheProfiles = (profiles: ChildProfile[]) => {
+  localStorage.setItem(PROFILES_CACHE_KEY, JSON.stringify(profiles))
+}
+
+// Profiles on this device, the one currently playing and its progress
+export function useProfiles() {
+  const [profiles, setProfiles] = useState<ChildProfile[]>([])
+  const [activeProfile, setActiveProfile] = useState<ChildProfile | null>(null)
+  const [progress, setProgress] = useState<ProfileProgress>({})
+  const [loading, setLoading] = useState(true)
+  const [guestSettings, setGuestSettings] = useState<ProfileSettings>(DEFAULT_SETTINGS)
+  const pendingSettingsRef = useRef<{ profileId: string; settings: Partial<ProfileSettings>; timer: ReturnType<typeof setTimeout> } | null>(null)
+
+  const storeProfiles = (update: (prev: ChildProfile[]) => ChildProfile[]) => {
+    setProfiles(prev => {
+      const next = update(prev)
+      cacheProfiles(next)
+      return next
+    })
+  }
+
+  useEffect(() => {
+    setProfiles(readCachedProfiles())
+    setGuestSettings(parseProfileSettings(localStorage.getItem(GUEST_SETTINGS_KEY)))
+    fetchProfiles()
+      .then(list => storeProfiles(() => withUnsavedSettings(list)))
+      .catch(error => console.error('Could not load profiles:', error))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const refreshProgress = useCallback((profileId?: string) => {
+    const id = profileId ?? activeProfile?.id
+    if (!id) return
+    fetchProfileProgress(id)
+      .then(setProgress)
+      .catch(error => console.error('Could not load progress:', error))
+  }, [activeProfile?.id])
+
+  const selectProfile = (profile: ChildProfile | null) => {
+    setActiveProfile(profile)
+    setProgress({})
+    if (profile) refreshProgress(profile.id)
+  }
+
+  // Creates a profile, or updates it when an id is given
+  const saveProfile = async (input: CreateProfileInput, id?: string) => {
+    const profile = id ? await updateProfile(id, input) : await createProfile(input)
+    storeProfiles(prev => (id ? prev.map(p => (p.id === id ? profile : p)) : [...prev, profile]))
+    if (activeProfile?.id === profile.id) setActiveProfile(profile)
+    return profile
+  }
+
+  // Applied locally right away; the server copy is updated in the background
+  const updateSettings = (settings: Partial<ProfileSettings>) => {
+    if (!activeProfile) {
+      const next = { ...guestSettings, ...settings }
+      setGuestSettings(next)
+      localStorage.setItem(GUEST_SETTINGS_KEY, JSON.stringify(next))
+      return
+    }
+    const updated = { ...activeProfile, settings: { ...activeProfile.settings, ...settings } }
+    setActiveProfile(updated)
+    storeProfiles(prev => prev.map(p => (p.id === updated.id ? updated : p)))
+    saveSettingsLater(updated.id, settings)
+  }
+
+  const flushSettings = () => {
+    const pending = pendingSettingsRef.current
+    if (!pending) return
+    clearTimeout(pending.timer)
+    pendingSettingsRef.current = null
+    saveProfileSettings(pending.profileId, pending.settings)
+  }
+
+  const saveSettingsLater = (profileId: string, settings: Partial<ProfileSettings>) => {
+    const pending = pendingSettingsRef.current
+    if (pending && pending.profileId !== profileId) flushSettings()
+
+    const merged = { ...pendingSettingsRef.current?.settings, ...settings }
+    if (pendingSettingsRef.current) clearTimeout(pendingSettingsRef.current.timer)
+    pendingSettingsRef.current = { profileId, settings: merged, timer: setTimeout(flushSettings, SETTINGS_SAVE_DELAY) }
+  }
+
+  // Don't lose a pending save when the page goes away
+  useEffect(() => {
+    window.addEventListener('pagehide', flushSettings)
+    return () => {
+      window.removeEventListener('pagehide', flushSettings)
+      flushSettings()
+    }
+  }, [])
+
+  return {
+    profiles,
+    activeProfile,
+    // Settings of the active profile, or of the guest when no profile is picked
+    settings: activeProfile?.settings ?? guestSettings,
+    progress,
+    loading,
+    selectProfile,
+    saveProfile,
+    updateSettings,
+    refreshProgress
+  }
+}
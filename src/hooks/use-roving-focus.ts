@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react'
+import { useSettings } from '@/components/settings/settings-provider'
+
+// Time each item stays highlighted while scanning, before the scan speed setting is applied
+const SCAN_INTERVAL = 1500
+
+// Focus ring for roving items; `data-scanned` marks the item the scan is on, even without keyboard focus styles
+export const FOCUS_RING_CLASS = `
+  outline-none focus-visible:ring-4 focus-visible:ring-yellow-400 focus-visible:ring-offset-2
+  data-[scanned]:ring-4 data-[scanned]:ring-yellow-400 data-[scanned]:ring-offset-2
+`
+
+interface RovingFocusOptions {
+  count: number
+  onActivate: (index: number) => void
+  // Nothing can be picked right now (e.g. while Simon plays the sequence or feedback is shown)
+  disabled?: boolean
+}
+
+const isAvailable = (element: HTMLElement | null | undefined): element is HTMLElement =>
+  !!element && !element.hasAttribute('disabled') && element.getAttribute('aria-disabled') !== 'true'
+
+// Roving tabindex for the answers of a board: one tab stop, arrow keys move between items
+// (up and down follow the on-screen layout, so it works with responsive grids and wrapping rows),
+// Enter and Space pick. With switch scanning on, the focus also steps through the items on its own.
+export function useRovingFocus({ count, onActivate, disabled = false }: RovingFocusOptions) {
+  const { settings, timing } = useSettings()
+  const [focusIndex, setFocusIndex] = useState(0)
+  const itemsRef = useRef<(HTMLElement | null)[]>([])
+  // Whether the focus was inside the group, so it can be restored when items are re-rendered or re-enabled
+  const hasFocusRef = useRef(false)
+  const current = Math.max(0, Math.min(focusIndex, count - 1))
+  const currentRef = useRef(current)
+  currentRef.current = current
+  const scanning = settings.switchScanning && !disabled && count > 0
+
+  // Next item that can be focused, going forwards or backwards from `from`
+  const step = (from: number, direction: 1 | -1) => {
+    for (let offset = 1; offset <= count; offset++) {
+      const index = (from + direction * offset + count) % count
+      if (isAvailable(itemsRef.current[index])) return index
+    }
+    return null
+  }
+
+  // Closest item in the row above or below
+  const stepVertical = (from: number, direction: 1 | -1) => {
+    const origin = itemsRef.current[from]?.getBoundingClientRect()
+    if (!origin) return null
+    const centerX = origin.left + origin.width / 2
+
+    let best: { index: number; dy: number; dx: number } | null = null
+    for (let index = 0; index < count; index++) {
+      const element = itemsRef.current[index]
+      if (index === from || !isAvailable(element)) continue
+      const rect = element.getBoundingClientRect()
+      const dy = direction === 1 ? rect.top - origin.bottom : origin.top - rect.bottom
+      if (dy < -1) continue
+      const dx = Math.abs(rect.left + rect.width / 2 - centerX)
+      if (!best || dy < best.dy - 1 || (Math.abs(dy - best.dy) <= 1 && dx < best.dx)) {
+        best = { index, dy, dx }
+      }
+    }
+    return best?.index ?? null
+  }
+
+  // Something outside the board has the focus (e.g. the settings dialog), so leave it alone
+  const focusIsElsewhere = () => {
+    const active = document.activeElement
+    return !!active && active !== document.body && !itemsRef.current.includes(active as HTMLElement)
+  }
+
+  const focusItem = (index: number) => {
+    setFocusIndex(index)
+    itemsRef.current[index]?.focus({ preventScroll: true })
+  }
+
+  const handleKeyDown = (event: KeyboardEvent, index: number) => {
+    let next: number | null = null
+    switch (event.key) {
+      case 'ArrowRight':
+        next = step(index, 1)
+        break
+      case 'ArrowLeft':
+        next = step(index, -1)
+        break
+      case 'ArrowDown':
+        next = stepVertical(index, 1)
+        break
+      case 'ArrowUp':
+        next = stepVertical(index, -1)
+        break
+      case 'Home':
+        next = step(count - 1, 1)
+        break
+      case 'End':
+        next = step(0, -1)
+        break
+      case 'Enter':
+      case ' ':
+        // Handled here so non-button items behave the same, and the click isn't fired twice
+        event.preventDefault()
+        if (!disabled) onActivate(index)
+        return
+      default:
+        return
+    }
+    event.preventDefault()
+    if (next !== null) focusItem(next)
+  }
+
+  // Switch scanning: move to the next available item at a steady pace
+  useEffect(() => {
+    if (!scanning) return
+    const timer = setInterval(() => {
+      if (focusIsElsewhere()) return
+      const next = step(currentRef.current, 1)
+      if (next !== null) focusItem(next)
+    }, timing.scan(SCAN_INTERVAL))
+    return () => clearInterval(timer)
+  }, [scanning, count, settings.scanSpeed])
+
+  // Keep the focus in the group when the focused item is removed, re-rendered or re-enabled
+  useEffect(() => {
+    if (disabled || (!hasFocusRef.current && !scanning)) return
+    if (focusIsElsewhere() || itemsRef.current.some(element => element === document.activeElement)) return
+    const index = isAvailable(itemsRef.current[current]) ? current : step(current, 1)
+    if (index !== null) focusItem(index)
+  })
+
+  const getItemProps = (index: number) => ({
+    ref: (element: HTMLElement | null) => {
+      itemsRef.current[index] = element
+    },
+    tabIndex: index === current ? 0 : -1,
+    // Lets the tutorial find the item to point at
+    'data-roving-index': index,
+    'data-scanned': scanning && index === current ? '' : undefined,
+    onKeyDown: (event: KeyboardEvent) => handleKeyDown(event, index),
+    onFocus: () => {
+      hasFocusRef.current = true
+      setFocusIndex(index)
+    },
+    onBlur: (event: { relatedTarget: EventTarget | null }) => {
+      // Focus lost to nothing (a disabled or removed item) still counts as inside the group
+      if (event.relatedTarget && !itemsRef.current.includes(event.relatedTarget as HTMLElement)) {
+        hasFocusRef.current = false
+      }
+    }
+  })
+
+  return { focusIndex: current, scanning, getItemProps }
+}
@@ -0,0 +1,9 @@
+import { useCallback } from 'react'
+import { useLocale } from 'next-intl'
+import { speak } from '@/lib/speech/client'
+
+// Reads texts aloud in the current language
+export function useSpeech() {
+  const locale = useLocale()
+  return useCallback((text: string) => speak(text, locale), [locale])
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { fetchCompletedTutorials, saveCompletedTutorial } from '@/lib/tutorials/client'
+import type { CompletedTutorials } from '@/lib/tutorials/schema'
+
+// Kept on the device too, so guests and offline play don't see a tutorial twice
+const cacheKey = (profileId?: string) => `kids-games:tutorials:${profileId ?? 'guest'}`
+
+const readCached = (profileId?: string): CompletedTutorials => {
+  try {
+    return JSON.parse(localStorage.getItem(cacheKey(profileId)) ?? '{}')
+  } catch {
+    return {}
+  }
+}
+
+// Which game tutorials the player (a profile, or the guest when none is picked) has finished
+export function useTutorials(profileId?: string) {
+  const [completed, setCompleted] = useState<CompletedTutorials>({})
+  const completedRef = useRef(completed)
+
+  const store = useCallback((next: CompletedTutorials) => {
+    completedRef.current = next
+    setCompleted(next)
+    localStorage.setItem(cacheKey(profileId), JSON.stringify(next))
+  }, [profileId])
+
+  useEffect(() => {
+    const cached = readCached(profileId)
+    completedRef.current = cached
+    setCompleted(cached)
+    if (!profileId) return
+
+    let cancelled = false
+    fetchCompletedTutorials(profileId)
+      .then(server => {
+        if (!cancelled) store({ ...completedRef.current, ...server })
+      })
+      .catch(error => console.error('Could not load the finished tutorials:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [profileId, store])
+
+  const complete = useCallback((gameId: string) => {
+    if (completedRef.current[gameId]) return
+    const completedAt = new Date().toISOString()
+    store({ ...completedRef.current, [gameId]: completedAt })
+    if (profileId) saveCompletedTutorial(profileId, gameId, completedAt)
+  }, [profileId, store])
+
+  return { completed, complete }
+}
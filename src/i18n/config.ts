@@ -0,0 +1,33 @@
+export const LOCALES = ['pt-BR', 'en', 'es'] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR'
+
+// Cookie holding the language picked in the switcher
+export const LOCALE_COOKIE = 'NEXT_LOCALE'
+
+// Shown in the language switcher, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'pt-BR': 'Português',
+  en: 'English',
+  es: 'Español'
+}
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale)
+
+// Best supported locale for an Accept-Language header ("es-MX,es;q=0.9,en;q=0.8" -> "es")
+export function matchLocale(acceptLanguage: string | null): Locale | null {
+  const requested = (acceptLanguage ?? '')
+    .split(',')
+    .map(part => part.split(';')[0].trim().toLowerCase())
+    .filter(Boolean)
+
+  for (const tag of requested) {
+    const exact = LOCALES.find(locale => locale.toLowerCase() === tag)
+    if (exact) return exact
+    const sameLanguage = LOCALES.find(locale => locale.split('-')[0] === tag.split('-')[0])
+    if (sameLanguage) return sameLanguage
+  }
+  return null
+}
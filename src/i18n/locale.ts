@@ -0,0 +1,17 @@
+'use server'
+
+import { cookies, headers } from 'next/headers'
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE, matchLocale, type Locale } from './config'
+
+// The app has no locale in its URLs: the language comes from the switcher cookie, then from the browser
+export async function getUserLocale(): Promise<Locale> {
+  const saved = (await cookies()).get(LOCALE_COOKIE)?.value
+  if (isLocale(saved)) return saved
+  return matchLocale((await headers()).get('accept-language')) ?? DEFAULT_LOCALE
+}
+
+export async function setUserLocale(locale: Locale) {
+  if (!isLocale(locale)) return
+  const cookieStore = await cookies()
+  cookieStore.set(LOCALE_COOKIE, locale, { maxAge: 60 * 60 * 24 * 365, sameSite: 'lax' })
+}
@@ -0,0 +1,38 @@
+import { longestStreak } from '@/lib/dates'
+import type { AchievementStats } from './stats'
+
+export interface Achievement {
+  // Also the message key (`achievements.items.<id>.title` and `.description`)
+  id: string
+  icon: string
+  // How far the player is; the badge unlocks when `current` reaches `target`
+  progress: (stats: AchievementStats) => { current: number; target: number }
+}
+
+const count = (current: number | undefined, target: number) => ({ current: Math.min(current ?? 0, target), target })
+
+const sum = (counters: Record<string, number>) => Object.values(counters).reduce((total, value) => total + value, 0)
+
+// Badges in gallery order
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'first-level', icon: '🎈', progress: stats => count(Object.keys(stats.bestLevel).length, 1) },
+  { id: 'perfect-memory', icon: '🧠', progress: stats => count(stats.perfectLevels.memory, 1) },
+  { id: 'memory-champion', icon: '🏅', progress: stats => count(stats.completed.memory, 1) },
+  { id: 'word-explorer', icon: '📚', progress: stats => count(stats.correct['find-pair'], 50) },
+  { id: 'pattern-100', icon: '🔢', progress: stats => count(stats.correct.pattern, 100) },
+  { id: 'sharp-eye', icon: '🔍', progress: stats => count(stats.correct.different, 50) },
+  { id: 'sequence-master', icon: '➡️', progress: stats => count(stats.completed.sequence, 1) },
+  { id: 'simon-10', icon: '🎵', progress: stats => count(stats.bestLevel.simon, 10) },
+  { id: 'star-collector', icon: '⭐', progress: stats => count(sum(stats.perfectLevels), 10) },
+  { id: 'streak-3', icon: '🔥', progress: stats => count(longestStreak(stats.playDays), 3) },
+  { id: 'streak-7', icon: '🌈', progress: stats => count(longestStreak(stats.playDays), 7) }
+]
+
+export const isUnlocked = (achievement: Achievement, stats: AchievementStats) => {
+  const { current, target } = achievement.progress(stats)
+  return current >= target
+}
+
+// Achievements reached by the stats that aren't in `unlocked` yet
+export const newlyUnlocked = (stats: AchievementStats, unlocked: Record<string, string>) =>
+  ACHIEVEMENTS.filter(achievement => !unlocked[achievement.id] && isUnlocked(achievement, stats))
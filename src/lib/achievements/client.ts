@@ -0,0 +1,13 @@
+import { fetchJson } from '@/lib/fetch-json'
+import { queueWrite } from '@/lib/offline/queue'
+import type { AchievementProgress } from './schema'
+
+export function fetchAchievements(profileId: string) {
+  const tzOffset = new Date().getTimezoneOffset()
+  return fetchJson<AchievementProgress>(`/api/profiles/${profileId}/achievements?tzOffset=${tzOffset}`)
+}
+
+// Queued like session writes, so badges earned offline reach the server too
+export function saveUnlockedAchievement(profileId: string, achievementId: string, unlockedAt: string) {
+  queueWrite(`/api/profiles/${profileId}/achievements`, 'POST', { achievementId, unlockedAt })
+}
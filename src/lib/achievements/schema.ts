@@ -0,0 +1,18 @@
+import { z } from 'zod'
+import type { AchievementStats } from './stats'
+
+export const unlockAchievementSchema = z.object({
+  achievementId: z.string().min(1).max(64),
+  // When it was earned; the write may have been queued while offline
+  unlockedAt: z.iso.datetime()
+})
+
+export type UnlockAchievementInput = z.infer<typeof unlockAchievementSchema>
+
+// Achievement id -> ISO date it was unlocked
+export type UnlockedAchievements = Record<string, string>
+
+export interface AchievementProgress {
+  stats: AchievementStats
+  unlocked: UnlockedAchievements
+}
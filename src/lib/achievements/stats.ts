@@ -0,0 +1,87 @@
+import { localDay } from '@/lib/dates'
+import type { SessionEvent } from '@/lib/progress/events'
+
+// Running totals of a player that achievements are checked against. Per game counters are keyed by game id.
+export interface AchievementStats {
+  correct: Record<string, number>
+  // Levels finished with three stars
+  perfectLevels: Record<string, number>
+  // Highest level finished, by the level of the board played (see StartGameOptions.difficulty)
+  bestLevel: Record<string, number>
+  // Times every level of the game was finished
+  completed: Record<string, number>
+  // Days (YYYY-MM-DD, local time) with at least one game played
+  playDays: string[]
+}
+
+export const emptyStats = (): AchievementStats => ({
+  correct: {},
+  perfectLevels: {},
+  bestLevel: {},
+  completed: {},
+  playDays: []
+})
+
+const increment = (counters: Record<string, number>, key: string) => ({ ...counters, [key]: (counters[key] ?? 0) + 1 })
+
+export function applyEvent(stats: AchievementStats, event: SessionEvent): AchievementStats {
+  switch (event.type) {
+    case 'start': {
+      const day = localDay(new Date(event.at))
+      return stats.playDays.includes(day) ? stats : { ...stats, playDays: [...stats.playDays, day].sort() }
+    }
+    case 'answer':
+      return event.result === 'correct' ? { ...stats, correct: increment(stats.correct, event.gameId) } : stats
+    case 'level-complete':
+      return {
+        ...stats,
+        perfectLevels: event.stars === 3 ? increment(stats.perfectLevels, event.gameId) : stats.perfectLevels,
+        bestLevel: { ...stats.bestLevel, [event.gameId]: Math.max(stats.bestLevel[event.gameId] ?? 0, event.boardLevel) }
+      }
+    case 'game-complete':
+      return { ...stats, completed: increment(stats.completed, event.gameId) }
+  }
+}
+
+const maxCounters = (a: Record<string, number>, b: Record<string, number>) => {
+  const merged = { ...a }
+  for (const [key, value] of Object.entries(b)) merged[key] = Math.max(merged[key] ?? 0, value)
+  return merged
+}
+
+// Combines the server's totals with the ones kept on the device, e.g. after playing offline
+export const mergeStats = (a: AchievementStats, b: AchievementStats): AchievementStats => ({
+  correct: maxCounters(a.correct, b.correct),
+  perfectLevels: maxCounters(a.perfectLevels, b.perfectLevels),
+  bestLevel: maxCounters(a.bestLevel, b.bestLevel),
+  completed: maxCounters(a.completed, b.completed),
+  playDays: [...new Set([...a.playDays, ...b.playDays])].sort()
+})
+
+// A stored session, as needed to rebuild the stats on the server
+export interface AchievementSession {
+  gameId: string
+  startedAt: Date
+  completed: boolean
+  correctAnswers: number
+  levels: Array<{ boardLevel: number; stars: number }>
+}
+
+export function buildAchievementStats(sessions: AchievementSession[], offsetMinutes: number): AchievementStats {
+  const stats = emptyStats()
+  const days = new Set<string>()
+
+  for (const session of sessions) {
+    const { gameId } = session
+    days.add(localDay(session.startedAt, offsetMinutes))
+    stats.correct[gameId] = (stats.correct[gameId] ?? 0) + session.correctAnswers
+    if (session.completed) stats.completed[gameId] = (stats.completed[gameId] ?? 0) + 1
+    for (const level of session.levels) {
+      if (level.stars === 3) stats.perfectLevels[gameId] = (stats.perfectLevels[gameId] ?? 0) + 1
+      stats.bestLevel[gameId] = Math.max(stats.bestLevel[gameId] ?? 0, level.boardLevel)
+    }
+  }
+
+  stats.playDays = [...days].sort()
+  return stats
+}
@@ -0,0 +1,13 @@
+import { fetchJson } from '@/lib/fetch-json'
+import { queueWrite } from '@/lib/offline/queue'
+import type { BoardDifficulty } from './engine'
+import type { ProfileDifficulty } from './schema'
+
+export async function fetchDifficulty(profileId: string) {
+  const { difficulty } = await fetchJson<{ difficulty: ProfileDifficulty }>(`/api/profiles/${profileId}/difficulty`)
+  return difficulty
+}
+
+export function saveDifficulty(profileId: string, gameId: string, difficulty: BoardDifficulty) {
+  queueWrite(`/api/profiles/${profileId}/difficulty`, 'PUT', { gameId, ...difficulty })
+}
@@ -0,0 +1,87 @@
+// Adaptive difficulty: after every level the next board is made easier or harder from how the
+// child has been doing lately, instead of always climbing the fixed level ladder.
+
+// Difficulty of the boards of one game
+export interface BoardDifficulty {
+  // Level the board is built for (grid size, distractors, Simon length...)
+  level: number
+  // Speed of the timed parts of the board (Simon playback); above 1 is faster
+  pace: number
+}
+
+export interface AnswerSample {
+  correct: boolean
+  // Time since the previous action
+  responseMs: number
+}
+
+// How one finished level went. Games give very different numbers of answers per level (a Simon level
+// played cleanly is a single answer, a memory grid a dozen), so levels are what the decision weighs.
+export interface LevelSample {
+  // Share of the level's answers that were right
+  accuracy: number
+  // Median time to answer in the level
+  responseMs: number
+}
+
+// What the engine needs to know about a game
+export interface AdaptiveGame {
+  maxLevel: number
+  // Comfortable time to answer; quicker answers allow a step up, much slower ones step down
+  responseMs: number
+  // The board follows `pace`
+  paced?: boolean
+}
+
+// Finished levels the decision is based on
+export const LEVEL_WINDOW = 3
+const STEP_UP_ACCURACY = 0.85
+const STEP_DOWN_ACCURACY = 0.6
+// Answering this many times slower than the comfortable time means the board is too hard
+const SLOW_FACTOR = 2
+
+const PACE_STEP = 0.15
+const MIN_PACE = 0.7
+const MAX_PACE = 1.3
+
+const roundPace = (pace: number) => Math.round(Math.min(Math.max(pace, MIN_PACE), MAX_PACE) * 100) / 100
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// A slowed down board first gets its normal speed back, then more levels, then more speed
+function stepUp(current: BoardDifficulty, game: AdaptiveGame): BoardDifficulty {
+  if (game.paced && current.pace < 1) return { ...current, pace: roundPace(current.pace + PACE_STEP) }
+  if (current.level < game.maxLevel) return { ...current, level: current.level + 1 }
+  return game.paced ? { ...current, pace: roundPace(current.pace + PACE_STEP) } : current
+}
+
+function stepDown(current: BoardDifficulty, game: AdaptiveGame): BoardDifficulty {
+  if (game.paced && current.pace > 1) return { ...current, pace: roundPace(current.pace - PACE_STEP) }
+  if (current.level > 1) return { ...current, level: current.level - 1 }
+  return game.paced ? { ...current, pace: roundPace(current.pace - PACE_STEP) } : current
+}
+
+// Sums up the answers of a finished level; null when it had none to judge it by
+export function levelSample(answers: AnswerSample[]): LevelSample | null {
+  if (answers.length === 0) return null
+  return {
+    accuracy: answers.filter(answer => answer.correct).length / answers.length,
+    responseMs: median(answers.map(answer => answer.responseMs))
+  }
+}
+
+// Difficulty of the next board, from the accuracy and response time of the recently finished levels
+export function nextDifficulty(current: BoardDifficulty, recent: LevelSample[], game: AdaptiveGame): BoardDifficulty {
+  if (recent.length === 0) return current
+
+  const accuracy = recent.reduce((total, sample) => total + sample.accuracy, 0) / recent.length
+  const responseMs = median(recent.map(sample => sample.responseMs))
+
+  if (accuracy >= STEP_UP_ACCURACY && responseMs <= game.responseMs) return stepUp(current, game)
+  if (accuracy < STEP_DOWN_ACCURACY || responseMs > game.responseMs * SLOW_FACTOR) return stepDown(current, game)
+  return current
+}
@@ -0,0 +1,13 @@
+import { z } from 'zod'
+import type { BoardDifficulty } from './engine'
+
+export const saveDifficultySchema = z.object({
+  gameId: z.string().min(1),
+  level: z.number().int().min(1),
+  pace: z.number().positive()
+})
+
+export type SaveDifficultyInput = z.infer<typeof saveDifficultySchema>
+
+// Current difficulty of every game the profile played, by game id
+export type ProfileDifficulty = Record<string, BoardDifficulty>
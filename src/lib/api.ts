@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import type { z } from 'zod'
+
+// Parses a JSON request body, returning either the data or a 400 response to send back
+export async function parseBody<T extends z.ZodType>(request: Request, schema: T) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return { error: NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 }) }
+  }
+
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    return { error: NextResponse.json({ error: 'Invalid request', issues: result.error.issues }, { status: 400 }) }
+  }
+  return { data: result.data as z.infer<T> }
+}
+
+export const notFound = (what: string) => NextResponse.json({ error: `${what} not found` }, { status: 404 })
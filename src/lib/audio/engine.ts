@@ -0,0 +1,170 @@
+// One AudioContext for the whole app. Browsers cap how many contexts a page may open, so creating
+// one per sound eventually leaves the app silent.
+
+export type AudioChannel = 'effects' | 'music' | 'voice'
+
+// Times in seconds; sustain is a fraction of the peak level
+export interface Envelope {
+  attack: number
+  decay: number
+  sustain: number
+  release: number
+}
+
+export interface Note {
+  freq: number
+  // Offset from the start of the phrase
+  at: number
+  duration: number
+  // Peak level of the note, 0–1
+  gain?: number
+}
+
+export interface Instrument {
+  wave: OscillatorType
+  envelope: Envelope
+}
+
+interface Graph {
+  context: AudioContext
+  master: GainNode
+  channels: Record<AudioChannel, GainNode>
+}
+
+const CHANNELS: AudioChannel[] = ['effects', 'music', 'voice']
+
+// Ramps can't reach 0, so envelopes fade to this instead
+const SILENCE = 0.0001
+
+let graph: Graph | null = null
+let masterVolume = 1
+let muted = false
+const channelVolumes: Record<AudioChannel, number> = { effects: 1, music: 0.6, voice: 1 }
+const buffers = new Map<string, Promise<AudioBuffer>>()
+
+// Built on first use (browsers only allow audio after a user gesture) and resumed whenever the
+// browser has suspended it, e.g. after the tab was in the background or an iOS interruption
+function getGraph() {
+  if (typeof window === 'undefined') return null
+
+  if (!graph) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext
+    if (!AudioContextClass) return null
+
+    const context: AudioContext = new AudioContextClass()
+    const master = context.createGain()
+    master.connect(context.destination)
+
+    const channels = {} as Record<AudioChannel, GainNode>
+    for (const channel of CHANNELS) {
+      channels[channel] = context.createGain()
+      channels[channel].gain.value = channelVolumes[channel]
+      channels[channel].connect(master)
+    }
+
+    graph = { context, master, channels }
+    applyMasterGain()
+  }
+
+  if (graph.context.state !== 'running') {
+    graph.context.resume().catch(error => console.error('Could not resume audio:', error))
+  }
+  return graph
+}
+
+function applyMasterGain() {
+  if (!graph) return
+  graph.master.gain.setTargetAtTime(muted ? 0 : masterVolume, graph.context.currentTime, 0.01)
+}
+
+const clampVolume = (volume: number) => Math.min(Math.max(volume, 0), 1)
+
+export function setMasterVolume(volume: number) {
+  masterVolume = clampVolume(volume)
+  applyMasterGain()
+}
+
+export function setMuted(value: boolean) {
+  muted = value
+  applyMasterGain()
+}
+
+export function setChannelVolume(channel: AudioChannel, volume: number) {
+  channelVolumes[channel] = clampVolume(volume)
+  if (graph) graph.channels[channel].gain.setTargetAtTime(channelVolumes[channel], graph.context.currentTime, 0.01)
+}
+
+// Level a channel is heard at, for sounds that can't go through the graph (e.g. speechSynthesis)
+export const getEffectiveVolume = (channel: AudioChannel) => (muted ? 0 : masterVolume * channelVolumes[channel])
+
+// Plays notes with an ADSR envelope; a single tone is a phrase of one note
+export function playPhrase(notes: Note[], instrument: Instrument, channel: AudioChannel = 'effects') {
+  const audio = getGraph()
+  if (!audio) return
+
+  const { context, channels } = audio
+  const { attack, decay, sustain, release } = instrument.envelope
+  const start = context.currentTime + 0.01
+
+  for (const note of notes) {
+    const peak = note.gain ?? 0.3
+    const t0 = start + note.at
+    // Short notes release before reaching the sustain stage
+    const held = Math.max(note.duration, attack + decay)
+
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+    oscillator.type = instrument.wave
+    oscillator.frequency.setValueAtTime(note.freq, t0)
+
+    gain.gain.setValueAtTime(SILENCE, t0)
+    gain.gain.linearRampToValueAtTime(peak, t0 + attack)
+    gain.gain.linearRampToValueAtTime(Math.max(peak * sustain, SILENCE), t0 + attack + decay)
+    gain.gain.setValueAtTime(Math.max(peak * sustain, SILENCE), t0 + held)
+    gain.gain.exponentialRampToValueAtTime(SILENCE, t0 + held + release)
+
+    oscillator.connect(gain)
+    gain.connect(channels[channel])
+    oscillator.onended = () => gain.disconnect()
+    oscillator.start(t0)
+    oscillator.stop(t0 + held + release + 0.02)
+  }
+}
+
+const loadBuffer = (context: AudioContext, url: string) => {
+  let buffer = buffers.get(url)
+  if (!buffer) {
+    buffer = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`GET ${url} failed with ${response.status}`)
+        return response.arrayBuffer()
+      })
+      .then(data => context.decodeAudioData(data))
+    // Failed loads are retried next time
+    buffer.catch(() => buffers.delete(url))
+    buffers.set(url, buffer)
+  }
+  return buffer
+}
+
+// Plays an audio file through a channel; resolves with a function that stops it.
+// `stillWanted` is asked once the file has loaded, and the file isn't played when it says no.
+export async function playFile(url: string, channel: AudioChannel, stillWanted = () => true) {
+  const audio = getGraph()
+  if (!audio) return () => {}
+
+  const source = audio.context.createBufferSource()
+  source.buffer = await loadBuffer(audio.context, url)
+  if (!stillWanted()) return () => {}
+  source.connect(audio.channels[channel])
+  source.onended = () => source.disconnect()
+  source.start()
+
+  return () => {
+    try {
+      source.stop()
+    } catch {
+      // Already finished
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { DEFAULT_LOCALE, type Locale } from '@/i18n/config'
+import { contentPackSchema, SEQUENCE_LEVELS, type ContentPack, type GameContent } from './schema'
+
+const PACKS_DIR = path.join(process.cwd(), 'content', 'packs')
+
+// The default pack is always merged first so other packs extend it
+const DEFAULT_PACK_ID = 'default'
+
+export function mergeContentPacks(packs: ContentPack[], locale = DEFAULT_LOCALE): GameContent {
+  const content: GameContent = {
+    packs: [],
+    locale,
+    symbols: {},
+    lookalikes: [],
+    names: {},
+    findPair: [],
+    pattern: [],
+    different: [],
+    sequence: []
+  }
+
+  for (const pack of packs) {
+    content.packs.push({ id: pack.id, title: pack.title })
+    for (const [pool, symbols] of Object.entries(pack.symbols ?? {})) {
+      content.symbols[pool] = Array.from(new Set([...(content.symbols[pool] ?? []), ...symbols]))
+    }
+    content.lookalikes.push(...(pack.lookalikes ?? []))
+    Object.assign(content.names, pack.names?.[locale])
+    content.findPair.push(...(pack.vocabulary?.[locale] ?? pack.findPair ?? []))
+    content.pattern.push(...(pack.pattern ?? []))
+    content.different.push(...(pack.different ?? []))
+    content.sequence.push(...(pack.sequence ?? []))
+  }
+
+  // Packs may add a single sequence, but together they must have one for every level
+  if (content.sequence.length < SEQUENCE_LEVELS) {
+    throw new Error(`Content packs have ${content.sequence.length} sequences, at least ${SEQUENCE_LEVELS} are needed`)
+  }
+
+  return content
+}
+
+// Reads and validates every JSON pack in content/packs. Invalid packs are skipped.
+export async function loadContentPacks(dir = PACKS_DIR): Promise<ContentPack[]> {
+  const files = (await fs.readdir(dir)).filter(file => file.endsWith('.json')).sort()
+  const packs: ContentPack[] = []
+
+  for (const file of files) {
+    try {
+      const raw = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'))
+      const result = contentPackSchema.safeParse(raw)
+      if (!result.success) {
+        console.error(`Invalid content pack ${file}:`, result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; '))
+        continue
+      }
+      packs.push(result.data)
+    } catch (error) {
+      console.error(`Could not read content pack ${file}:`, error)
+    }
+  }
+
+  return packs.sort((a, b) => Number(b.id === DEFAULT_PACK_ID) - Number(a.id === DEFAULT_PACK_ID))
+}
+
+export async function loadGameContent(locale?: Locale) {
+  return mergeContentPacks(await loadContentPacks(), locale)
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod'
+
+// Current content pack format. Bump when a breaking change is made to the schema.
+export const CONTENT_PACK_VERSION = 1
+
+// Levels of "Sequência Lógica"; all packs together need at least one sequence per level
+export const SEQUENCE_LEVELS = 4
+
+const symbolSchema = z.string().min(1)
+
+const wordPairSchema = z.object({
+  image: symbolSchema,
+  word: z.string().min(1)
+})
+
+const patternChallengeSchema = z.object({
+  sequence: z.array(symbolSchema).min(3),
+  answer: symbolSchema,
+  options: z.array(symbolSchema).min(2)
+})
+  .refine(p => p.sequence.includes('?'), { message: 'sequence must contain a "?" placeholder' })
+  .refine(p => p.options.includes(p.answer), { message: 'options must include the answer' })
+
+// Items are told apart by their symbol, so a sequence can't repeat one
+const sequenceSchema = z.array(symbolSchema).min(2)
+  .refine(items => new Set(items).size === items.length, { message: 'sequence items must be unique' })
+
+const differentChallengeSchema = z.object({
+  items: z.array(symbolSchema).min(3),
+  different: z.number().int().min(0)
+})
+  .refine(d => d.different < d.items.length, { message: 'different must point at one of the items' })
+
+export const contentPackSchema = z.object({
+  version: z.literal(CONTENT_PACK_VERSION),
+  id: z.string().min(1),
+  title: z.string().min(1),
+  // Named symbol pools (e.g. "memory", "fruits", "colors")
+  symbols: z.record(z.string(), z.array(symbolSchema)).optional(),
+  // Groups of symbols that look almost the same (e.g. 🔺 and 🔻), used for the hardest odd-one-out grids
+  lookalikes: z.array(z.array(symbolSchema).min(2)).optional(),
+  // Word lists keyed by locale (e.g. "pt-BR", "en"), so Encontre o Par teaches the chosen language
+  vocabulary: z.record(z.string(), z.array(wordPairSchema)).optional(),
+  // Names of the symbols keyed by locale, read out by screen readers (e.g. { "pt-BR": { "🐶": "cachorro" } })
+  names: z.record(z.string(), z.record(symbolSchema, z.string().min(1))).optional(),
+  // Words used for locales the pack has no vocabulary for
+  findPair: z.array(wordPairSchema).optional(),
+  pattern: z.array(patternChallengeSchema).optional(),
+  different: z.array(differentChallengeSchema).optional(),
+  // Each entry is a sequence in its correct order
+  sequence: z.array(sequenceSchema).optional()
+})
+
+export type ContentPack = z.infer<typeof contentPackSchema>
+export type WordPair = z.infer<typeof wordPairSchema>
+export type PatternChallenge = z.infer<typeof patternChallengeSchema>
+export type DifferentChallenge = z.infer<typeof differentChallengeSchema>
+
+// All loaded packs merged together, as consumed by the games
+export interface GameContent {
+  packs: Array<{ id: string; title: string }>
+  // Locale the vocabulary was picked for
+  locale: string
+  symbols: Record<string, string[]>
+  lookalikes: string[][]
+  // Symbol names in the content locale
+  names: Record<string, string>
+  // Vocabulary of the content locale
+  findPair: WordPair[]
+  pattern: PatternChallenge[]
+  different: DifferentChallenge[]
+  sequence: string[][]
+}
@@ -0,0 +1,40 @@
+import { createRng, deriveSeed, hashString, pick, randomInt } from '@/lib/rng'
+
+// One level of a game in the daily playlist
+export interface DailyStep {
+  gameId: string
+  level: number
+  // Seed the level is built from, the same for every player on that day
+  seed: number
+}
+
+// Levels a game may be picked at: past the very first one, but short enough for a quick daily round
+const LEVELS: Record<string, [number, number]> = {
+  memory: [2, 3],
+  'find-pair': [1, 2],
+  pattern: [2, 4],
+  different: [2, 5],
+  sequence: [1, 3],
+  simon: [3, 5]
+}
+
+// The playlist: a memory game, three thinking puzzles and a Simon run to finish
+const SLOTS: string[][] = [
+  ['memory', 'find-pair'],
+  ['pattern', 'different', 'sequence'],
+  ['pattern', 'different', 'sequence'],
+  ['pattern', 'different', 'sequence'],
+  ['simon']
+]
+
+// The challenge of a day (YYYY-MM-DD). It only depends on the date, so everyone plays the same set.
+export function dailyChallenge(day: string): DailyStep[] {
+  const seed = hashString(`daily:${day}`)
+  const random = createRng(seed)
+
+  return SLOTS.map((games, index) => {
+    const gameId = pick(random, games)
+    const [min, max] = LEVELS[gameId]
+    return { gameId, level: randomInt(random, min, max), seed: deriveSeed(seed, index) }
+  })
+}
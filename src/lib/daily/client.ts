@@ -0,0 +1,12 @@
+import { fetchJson } from '@/lib/fetch-json'
+import { queueWrite } from '@/lib/offline/queue'
+
+// Days (YYYY-MM-DD) the profile finished the daily challenge
+export async function fetchDailyDays(profileId: string) {
+  const { days } = await fetchJson<{ days: string[] }>(`/api/profiles/${profileId}/daily`)
+  return days
+}
+
+export function saveDailyCompletion(profileId: string, day: string) {
+  queueWrite(`/api/profiles/${profileId}/daily`, 'POST', { day })
+}
@@ -0,0 +1,8 @@
+import { z } from 'zod'
+
+export const completeDailySchema = z.object({
+  // Day of the challenge in the player's time zone
+  day: z.iso.date()
+})
+
+export type CompleteDailyInput = z.infer<typeof completeDailySchema>
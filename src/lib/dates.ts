@@ -0,0 +1,34 @@
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Calendar day (YYYY-MM-DD) of a date in the player's time zone.
+// `offsetMinutes` is what Date.getTimezoneOffset returns, so the server can compute the child's days too.
+export const localDay = (date: Date, offsetMinutes = date.getTimezoneOffset()) =>
+  new Date(date.getTime() - offsetMinutes * 60000).toISOString().slice(0, 10)
+
+// Day before or after a YYYY-MM-DD day
+export const addDays = (day: string, days: number) =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+
+// Longest run of consecutive days in a list of YYYY-MM-DD days (in any order, duplicates allowed)
+export function longestStreak(days: string[]) {
+  const sorted = [...new Set(days)].sort()
+  let longest = 0
+  let run = 0
+  sorted.forEach((day, index) => {
+    run = index > 0 && addDays(sorted[index - 1], 1) === day ? run + 1 : 1
+    longest = Math.max(longest, run)
+  })
+  return longest
+}
+
+// Consecutive days played up to today; a streak still counts until the end of the day after the last play
+export function currentStreak(days: string[], today: string) {
+  const played = new Set(days)
+  let day = played.has(today) ? today : addDays(today, -1)
+  let streak = 0
+  while (played.has(day)) {
+    streak++
+    day = addDays(day, -1)
+  }
+  return streak
+}
@@ -0,0 +1,12 @@
+// JSON request to one of our own API routes; throws on non-2xx responses
+export async function fetchJson<T>(path: string, method = 'GET', body?: unknown): Promise<T> {
+  const response = await fetch(path, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+  if (!response.ok) {
+    throw new Error(`${method} ${path} failed with ${response.status}`)
+  }
+  return response.json()
+}
@@ -0,0 +1,92 @@
+import type { DifferentChallenge, GameContent } from '@/lib/content/schema'
+import { pick, randomInt, sample, type Random } from '@/lib/rng'
+
+// How close the odd item is to the others, from easiest to hardest
+export type DifferentSimilarity = 'other-category' | 'same-category' | 'lookalike'
+
+export interface DifferentGrid extends DifferentChallenge {
+  cols: number
+  similarity?: DifferentSimilarity
+}
+
+export interface DifferentDifficulty {
+  cols: number
+  rows: number
+  challenges: number
+  similarity: DifferentSimilarity
+  // The odd item may sit on the edges of the grid (harder to spot) instead of only in the middle
+  anyPosition: boolean
+}
+
+const MAX_SIDE = 6
+
+// Grids grow one side at a time: 3×2, 3×3, 4×3, 4×4, 5×4 ... up to 6×6.
+// The odd item gets closer to the rest every few levels.
+export function getDifferentDifficulty(level: number): DifferentDifficulty {
+  const step = Math.max(level, 1) - 1
+  return {
+    cols: Math.min(3 + Math.floor(step / 2), MAX_SIDE),
+    rows: Math.min(2 + Math.ceil(step / 2), MAX_SIDE),
+    challenges: Math.min(2 + Math.floor(step / 2), 5),
+    similarity: level <= 2 ? 'other-category' : level <= 5 ? 'same-category' : 'lookalike',
+    anyPosition: level > 2
+  }
+}
+
+// Picks the repeated item and the odd one
+function pickItems(similarity: DifferentSimilarity, content: GameContent, random: Random) {
+  const pools = Object.values(content.symbols).filter(pool => pool.length >= 2)
+  if (pools.length === 0) {
+    throw new Error('No symbol pool with at least 2 symbols for the different generator')
+  }
+
+  if (similarity === 'lookalike' && content.lookalikes.length > 0) {
+    const [common, odd] = sample(random, pick(random, content.lookalikes), 2)
+    return { common, odd }
+  }
+
+  if (similarity === 'other-category' && pools.length > 1) {
+    const [commonPool, oddPool] = sample(random, pools, 2)
+    const common = pick(random, commonPool)
+    return { common, odd: pick(random, oddPool.filter(s => s !== common)) }
+  }
+
+  const [common, odd] = sample(random, pick(random, pools), 2)
+  return { common, odd }
+}
+
+function pickPosition(difficulty: DifferentDifficulty, random: Random) {
+  const { cols, rows } = difficulty
+  const cells = Array.from({ length: cols * rows }, (_, i) => i)
+  if (difficulty.anyPosition) return pick(random, cells)
+
+  const isEdge = (i: number) => i < cols || i >= cols * (rows - 1) || i % cols === 0 || i % cols === cols - 1
+  const isCorner = (i: number) => [0, cols - 1, cols * (rows - 1), cols * rows - 1].includes(i)
+  const inner = cells.filter(i => !isEdge(i))
+  // Grids with only two rows have no inner cells, so just keep away from the corners
+  return pick(random, inner.length > 0 ? inner : cells.filter(i => !isCorner(i)))
+}
+
+export function generateDifferentGrid(difficulty: DifferentDifficulty, content: GameContent, random: Random): DifferentGrid {
+  const { common, odd } = pickItems(difficulty.similarity, content, random)
+  const different = pickPosition(difficulty, random)
+  const items = Array.from({ length: difficulty.cols * difficulty.rows }, (_, i) => (i === different ? odd : common))
+
+  return { items, different, cols: difficulty.cols, similarity: difficulty.similarity }
+}
+
+// Challenges for a level: generated grids, plus one hand-written row from the content packs when there are any
+export function generateDifferentForLevel(level: number, content: GameContent, random: Random) {
+  const difficulty = getDifferentDifficulty(level)
+  const challenges: DifferentGrid[] = Array.from(
+    { length: difficulty.challenges },
+    () => generateDifferentGrid(difficulty, content, random)
+  )
+
+  if (level > 1 && content.different.length > 0) {
+    const curated = pick(random, content.different)
+    challenges[randomInt(random, 0, challenges.length - 1)] = { ...curated, cols: curated.items.length }
+  }
+
+  return challenges
+}
@@ -0,0 +1,174 @@
+import type { GameContent, PatternChallenge } from '@/lib/content/schema'
+import { pick, randomInt, sample, type Random } from '@/lib/rng'
+
+export type PatternKind = 'AB' | 'AAB' | 'ABB' | 'ABC' | 'growing' | 'arithmetic'
+
+export interface GeneratedPattern extends PatternChallenge {
+  kind: PatternKind
+}
+
+export interface PatternDifficulty {
+  kinds: PatternKind[]
+  // Number of challenges in the level
+  challenges: number
+  // Terms shown before the "?"
+  visible: number
+  // Answer plus distractors
+  options: number
+  // Largest step used by arithmetic patterns
+  maxStep: number
+}
+
+// Difficulty per level (index 0 = level 1)
+export const PATTERN_DIFFICULTY: PatternDifficulty[] = [
+  { kinds: ['AB'], challenges: 2, visible: 5, options: 2, maxStep: 1 },
+  { kinds: ['AB', 'AAB', 'ABB'], challenges: 3, visible: 6, options: 3, maxStep: 1 },
+  { kinds: ['AAB', 'ABB', 'ABC'], challenges: 3, visible: 6, options: 3, maxStep: 2 },
+  { kinds: ['ABC', 'growing', 'arithmetic'], challenges: 4, visible: 7, options: 3, maxStep: 2 },
+  { kinds: ['ABC', 'growing', 'arithmetic'], challenges: 5, visible: 7, options: 4, maxStep: 5 }
+]
+
+// Repeating units, written with positions into the chosen symbols
+const CYCLES: Record<'AB' | 'AAB' | 'ABB' | 'ABC', number[]> = {
+  AB: [0, 1],
+  AAB: [0, 0, 1],
+  ABB: [0, 1, 1],
+  ABC: [0, 1, 2]
+}
+
+// Symbol pools big enough to build a pattern plus its distractors
+function usablePools(content: GameContent, size: number) {
+  const pools = Object.values(content.symbols).filter(pool => pool.length >= size)
+  if (pools.length === 0) {
+    throw new Error(`No symbol pool with at least ${size} symbols for the pattern generator`)
+  }
+  return pools
+}
+
+// Distractors come first from the pattern itself (the most tempting wrong answers), then from the pool
+function buildOptions(random: Random, answer: string, related: string[], pool: string[], count: number) {
+  const distractors = sample(random, Array.from(new Set(related.filter(s => s !== answer))), count - 1)
+  const extras = pool.filter(s => s !== answer && !related.includes(s))
+  distractors.push(...sample(random, extras, count - 1 - distractors.length))
+  return sample(random, [answer, ...distractors], count)
+}
+
+function finish(kind: PatternKind, terms: string[], visible: number, options: string[]): GeneratedPattern {
+  return { kind, sequence: [...terms.slice(0, visible), '?'], answer: terms[visible], options }
+}
+
+function generateCycle(kind: keyof typeof CYCLES, difficulty: PatternDifficulty, content: GameContent, random: Random) {
+  const cycle = CYCLES[kind]
+  const symbolCount = Math.max(...cycle) + 1
+  const pool = pick(random, usablePools(content, symbolCount + difficulty.options))
+  const symbols = sample(random, pool, symbolCount)
+
+  // Start at a random point of the cycle so the answer is not always the same position
+  const offset = randomInt(random, 0, cycle.length - 1)
+  const terms = Array.from({ length: difficulty.visible + 1 }, (_, i) => symbols[cycle[(i + offset) % cycle.length]])
+  const answer = terms[difficulty.visible]
+
+  return finish(kind, terms, difficulty.visible, buildOptions(random, answer, symbols, pool, difficulty.options))
+}
+
+// A B A B B A B B B ... : the run of B grows by one every time
+function generateGrowing(difficulty: PatternDifficulty, content: GameContent, random: Random) {
+  const pool = pick(random, usablePools(content, 2 + difficulty.options))
+  const [a, b] = sample(random, pool, 2)
+
+  const terms: string[] = []
+  for (let run = 1; terms.length <= difficulty.visible; run++) {
+    terms.push(a, ...Array(run).fill(b))
+  }
+  const answer = terms[difficulty.visible]
+
+  return finish('growing', terms, difficulty.visible, buildOptions(random, answer, [a, b], pool, difficulty.options))
+}
+
+function generateArithmetic(difficulty: PatternDifficulty, random: Random) {
+  const start = randomInt(random, 1, 5)
+  const step = randomInt(random, 1, difficulty.maxStep)
+  const visible = Math.min(difficulty.visible, 5)
+  const values = Array.from({ length: visible + 1 }, (_, i) => start + i * step)
+  const answer = values[visible]
+
+  // Off-by-one and off-by-a-step answers are the usual mistakes
+  const related = [answer + 1, answer - 1, answer + step, answer - step, answer + 2 * step]
+    .filter(n => n > 0)
+    .map(String)
+  const options = buildOptions(random, String(answer), related, [], difficulty.options)
+
+  return finish('arithmetic', values.map(String), visible, options)
+}
+
+export function generatePattern(kind: PatternKind, difficulty: PatternDifficulty, content: GameContent, random: Random) {
+  switch (kind) {
+    case 'growing':
+      return generateGrowing(difficulty, content, random)
+    case 'arithmetic':
+      return generateArithmetic(difficulty, random)
+    default:
+      return generateCycle(kind, difficulty, content, random)
+  }
+}
+
+export function getPatternDifficulty(level: number) {
+  return PATTERN_DIFFICULTY[Math.min(Math.max(level, 1), PATTERN_DIFFICULTY.length) - 1]
+}
+
+// Challenges for a level: generated ones, plus one hand-written challenge from the content packs when there are any
+export function generatePatternsForLevel(level: number, content: GameContent, random: Random) {
+  const difficulty = getPatternDifficulty(level)
+  const challenges: Array<PatternChallenge | GeneratedPattern> = Array.from(
+    { length: difficulty.challenges },
+    () => generatePattern(pick(random, difficulty.kinds), difficulty, content, random)
+  )
+
+  if (level > 1 && content.pattern.length > 0) {
+    challenges[randomInt(random, 0, challenges.length - 1)] = pick(random, content.pattern)
+  }
+
+  return challenges
+}
+
+export type PatternRule =
+  | { type: 'repeat'; unit: string[] }
+  | { type: 'step'; step: number }
+  | { type: 'growing'; symbol: string }
+
+// The rule behind a pattern, worked out from its visible terms so hand-written patterns get one too;
+// null when it follows none of the generated kinds
+export function patternRule(sequence: string[]): PatternRule | null {
+  const terms = sequence.filter(term => term !== '?')
+  if (terms.length < 2) return null
+
+  const numbers = terms.map(Number)
+  const step = numbers[1] - numbers[0]
+  if (step !== 0 && numbers.every((n, i) => i === 0 || n - numbers[i - 1] === step)) {
+    return { type: 'step', step }
+  }
+
+  for (let length = 1; length <= terms.length / 2; length++) {
+    if (terms.every((term, i) => i < length || term === terms[i - length])) {
+      return { type: 'repeat', unit: terms.slice(0, length) }
+    }
+  }
+
+  // A B A B B A B B B: single A's between runs of B that grow by one (the last run may be cut short by the "?")
+  const runs: Array<{ symbol: string; length: number }> = []
+  for (const term of terms) {
+    const last = runs[runs.length - 1]
+    if (last?.symbol === term) last.length += 1
+    else runs.push({ symbol: term, length: 1 })
+  }
+  const growing = runs.filter((_, i) => i % 2 === 1)
+  if (
+    new Set(terms).size === 2 &&
+    growing.length >= 2 &&
+    runs.every((run, i) => i % 2 === 1 || run.length === 1) &&
+    growing.slice(0, -1).every((run, i) => run.length === i + 1)
+  ) {
+    return { type: 'growing', symbol: growing[0].symbol }
+  }
+  return null
+}
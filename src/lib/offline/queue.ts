@@ -0,0 +1,93 @@
+// Writes to our API that must survive being offline (e.g. in the car or on a flight).
+// Every write is stored in localStorage first and sent in order, so a session is always created
+// before its attempts arrive. Writes that can't reach the server stay queued until it is reachable again.
+// A write the server keeps failing on is given up after a few tries.
+
+const QUEUE_KEY = 'kids-games:pending-writes'
+
+interface PendingWrite {
+  path: string
+  method: string
+  body: unknown
+  // Times the server answered with an error
+  failures: number
+}
+
+// A write the server keeps failing on is dropped after this many tries, so it can't hold up the rest
+const MAX_FAILURES = 5
+
+const readQueue = (): PendingWrite[] => {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_KEY) ?? '[]')
+  } catch {
+    return []
+  }
+}
+
+const writeQueue = (queue: PendingWrite[]) => {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue))
+}
+
+export const pendingWriteCount = () => readQueue().length
+
+// Bodies of the writes still waiting for a path, oldest first
+export const pendingBodies = (path: string, method: string) =>
+  readQueue().filter(write => write.path === path && write.method === method).map(write => write.body)
+
+type SendResult = 'sent' | 'offline' | 'server-error'
+
+// Sends one write; 'offline' and 'server-error' mean the write should be retried
+async function send(write: PendingWrite): Promise<SendResult> {
+  let response: Response
+  try {
+    response = await fetch(write.path, {
+      method: write.method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(write.body)
+    })
+  } catch {
+    return 'offline'
+  }
+  // Server errors may be a proxy in front of a server that is down, so try again later
+  if (response.status >= 500) return 'server-error'
+  // The server refused the write itself; retrying won't help
+  if (!response.ok) console.error(`${write.method} ${write.path} failed with ${response.status}, dropping it`)
+  return 'sent'
+}
+
+let flushing: Promise<void> | null = null
+
+// Sends queued writes one by one, stopping at the first one that can't reach the server
+export function flushPendingWrites() {
+  flushing ??= (async () => {
+    try {
+      let queue = readQueue()
+      while (queue.length > 0) {
+        const write = queue[0]
+        const result = await send(write)
+        if (result === 'offline') break
+
+        // Re-read in case writes were queued while this one was being sent
+        queue = readQueue().slice(1)
+        if (result === 'server-error') {
+          const failures = write.failures + 1
+          if (failures < MAX_FAILURES) {
+            writeQueue([{ ...write, failures }, ...queue])
+            break
+          }
+          console.error(`${write.method} ${write.path} failed ${failures} times, dropping it`)
+        }
+        writeQueue(queue)
+      }
+    } finally {
+      flushing = null
+    }
+  })()
+  return flushing
+}
+
+export function queueWrite(path: string, method: string, body: unknown) {
+  writeQueue([...readQueue(), { path, method, body, failures: 0 }])
+  // A flush already running will pick the new write up
+  if (!flushing) void flushPendingWrites()
+}
@@ -0,0 +1,32 @@
+import { fetchJson } from '@/lib/fetch-json'
+import { pendingBodies, queueWrite } from '@/lib/offline/queue'
+import type { ChildProfile, CreateProfileInput, ProfileProgress, ProfileSettings, UpdateProfileInput } from './schema'
+
+export async function fetchProfiles() {
+  const { profiles } = await fetchJson<{ profiles: ChildProfile[] }>('/api/profiles')
+  return profiles
+}
+
+export async function createProfile(input: CreateProfileInput) {
+  const { profile } = await fetchJson<{ profile: ChildProfile }>('/api/profiles', 'POST', input)
+  return profile
+}
+
+export async function updateProfile(id: string, input: UpdateProfileInput) {
+  const { profile } = await fetchJson<{ profile: ChildProfile }>(`/api/profiles/${id}`, 'PATCH', input)
+  return profile
+}
+
+// Goes through the offline queue, so settings changed without a network reach the server later
+export function saveProfileSettings(id: string, settings: Partial<ProfileSettings>) {
+  queueWrite(`/api/profiles/${id}`, 'PATCH', { settings })
+}
+
+// Settings changes of a profile that haven't reached the server yet, merged in order
+export const unsavedProfileSettings = (id: string): Partial<ProfileSettings> =>
+  Object.assign({}, ...pendingBodies(`/api/profiles/${id}`, 'PATCH').map(body => (body as UpdateProfileInput).settings))
+
+export async function fetchProfileProgress(id: string) {
+  const { progress } = await fetchJson<{ progress: ProfileProgress }>(`/api/profiles/${id}/progress`)
+  return progress
+}
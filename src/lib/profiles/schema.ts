@@ -0,0 +1,126 @@
+import { z } from 'zod'
+
+export const AVATARS = ['🦁', '🐼', '🦊', '🐸', '🦄', '🐙', '🐯', '🐵', '🐧', '🐢', '🦖', '🐝']
+
+export const SPEEDS = ['slow', 'normal', 'fast'] as const
+
+export type Speed = (typeof SPEEDS)[number]
+
+// Multipliers applied to durations: slower settings make animations, Simon playback and feedback last longer
+export const SPEED_FACTORS: Record<Speed, number> = { slow: 1.5, normal: 1, fast: 0.6 }
+
+// Colours of the Simon buttons: the standard ones, or palettes that stay distinct with each type of colour blindness
+export const SIMON_PALETTES = ['standard', 'deuteranopia', 'protanopia', 'tritanopia'] as const
+
+export type SimonPalette = (typeof SIMON_PALETTES)[number]
+
+// Choices for the number of hints per level; 0 hides the hint button
+export const HINT_BUDGETS = [0, 1, 2, 3, 5] as const
+
+const volumeSchema = z.number().min(0).max(1)
+const speedSchema = z.enum(SPEEDS)
+
+// No defaults here, so partial updates only carry the fields that changed
+export const profileSettingsSchema = z.object({
+  soundEnabled: z.boolean(),
+  masterVolume: volumeSchema,
+  effectsVolume: volumeSchema,
+  musicVolume: volumeSchema,
+  voiceVolume: volumeSchema,
+  animationSpeed: speedSchema,
+  reduceMotion: z.boolean(),
+  simonSpeed: speedSchema,
+  simonPalette: z.enum(SIMON_PALETTES),
+  // A different shape on each Simon button
+  simonShapes: z.boolean(),
+  // Simon tones far apart in pitch and each with its own timbre
+  simonDistinctTones: z.boolean(),
+  // Every Simon button looks the same, so the sequence is followed by ear
+  simonPitchOnly: z.boolean(),
+  feedbackDelay: speedSchema,
+  // Single-switch access: the focus moves through the board on its own and the switch (Enter/Space) picks
+  switchScanning: z.boolean(),
+  scanSpeed: speedSchema,
+  // Boards get easier or harder with how the child is doing (see src/lib/adaptive/engine.ts)
+  adaptiveDifficulty: z.boolean(),
+  // Games help after repeated mistakes (see GameModule.assist)
+  assistMode: z.boolean(),
+  // Hints the player may ask for in each level (see GameModule.hint)
+  hintsPerLevel: z.number().int().min(0).max(5)
+})
+
+export const DEFAULT_SETTINGS: ProfileSettings = {
+  soundEnabled: true,
+  masterVolume: 1,
+  effectsVolume: 1,
+  musicVolume: 0.6,
+  voiceVolume: 1,
+  animationSpeed: 'normal',
+  reduceMotion: false,
+  simonSpeed: 'normal',
+  simonPalette: 'standard',
+  simonShapes: false,
+  simonDistinctTones: false,
+  simonPitchOnly: false,
+  feedbackDelay: 'normal',
+  switchScanning: false,
+  scanSpeed: 'normal',
+  adaptiveDifficulty: true,
+  assistMode: true,
+  hintsPerLevel: 3
+}
+
+export const createProfileSchema = z.object({
+  name: z.string().trim().min(1).max(20),
+  avatar: z.string().min(1)
+})
+
+export const updateProfileSchema = createProfileSchema.partial().extend({
+  settings: profileSettingsSchema.partial().optional()
+})
+
+export type ProfileSettings = z.infer<typeof profileSettingsSchema>
+export type CreateProfileInput = z.infer<typeof createProfileSchema>
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>
+
+export interface ChildProfile {
+  id: string
+  name: string
+  avatar: string
+  settings: ProfileSettings
+}
+
+// Best results of a profile in one game
+export interface GameProgress {
+  bestScore: number
+  levelsCompleted: number
+  // Best star rating of every level, added up
+  stars: number
+}
+
+export type ProfileProgress = Record<string, GameProgress>
+
+// Settings are stored as JSON; missing fields take the defaults and anything unreadable falls back to them.
+// Each field is checked on its own, so one outdated value doesn't reset the others.
+export function parseProfileSettings(raw: unknown): ProfileSettings {
+  let value = raw
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw)
+    } catch {
+      value = {}
+    }
+  }
+  const stored: Record<string, unknown> = value !== null && typeof value === 'object' ? value as Record<string, unknown> : {}
+
+  const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS }
+  for (const [key, schema] of Object.entries(profileSettingsSchema.shape)) {
+    const result = schema.safeParse(stored[key])
+    if (result.success) settings[key] = result.data
+  }
+  return settings as ProfileSettings
+}
+
+export function toChildProfile(row: { id: string; name: string; avatar: string; settings: string }): ChildProfile {
+  return { id: row.id, name: row.name, avatar: row.avatar, settings: parseProfileSettings(row.settings) }
+}
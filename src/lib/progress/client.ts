@@ -0,0 +1,24 @@
+import { queueWrite } from '@/lib/offline/queue'
+import type { AttemptInput, CreateSessionInput, LevelResultInput, UpdateSessionInput } from './schema'
+
+// Records a session and returns functions that write to it. The id is made here and every write
+// goes through the offline queue, so sessions played without a network are saved once it is back.
+// Writes are fire-and-forget: a failing server must never interrupt the game.
+export function startSessionRecording(input: Omit<CreateSessionInput, 'id' | 'startedAt'>) {
+  // randomUUID only exists on https and localhost
+  const sessionId = crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+  queueWrite('/api/sessions', 'POST', { ...input, id: sessionId, startedAt: new Date().toISOString() })
+
+  const write = (path: string, method: string, body: unknown) =>
+    queueWrite(`/api/sessions/${sessionId}${path}`, method, body)
+
+  return {
+    sessionId,
+    recordAttempt: (attempt: AttemptInput) => write('/attempts', 'POST', attempt),
+    recordLevel: (result: LevelResultInput) => write('/levels', 'POST', result),
+    finish: (update: Omit<UpdateSessionInput, 'ended' | 'endedAt'>) =>
+      write('', 'PATCH', { ...update, ended: true, endedAt: new Date().toISOString() })
+  }
+}
+
+export type SessionRecording = ReturnType<typeof startSessionRecording>
@@ -0,0 +1,7 @@
+// What happens during a game session, reported by useGameSession to whoever listens (e.g. achievements)
+export type SessionEvent =
+  | { type: 'start'; gameId: string; at: number }
+  | { type: 'answer'; gameId: string; level: number; result: 'correct' | 'wrong'; responseMs: number }
+  // `boardLevel` is the level the board was built for (see StartGameOptions.difficulty)
+  | { type: 'level-complete'; gameId: string; level: number; boardLevel: number; stars: number }
+  | { type: 'game-complete'; gameId: string; score: number }
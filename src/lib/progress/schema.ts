@@ -0,0 +1,57 @@
+import { z } from 'zod'
+
+// Request bodies of the /api/sessions routes, shared by the routes and the client
+
+export const createSessionSchema = z.object({
+  // Made by the client, so later writes can be queued before the session exists on the server
+  id: z.string().min(1).max(64).optional(),
+  gameId: z.string().min(1),
+  seed: z.string().min(1),
+  profileId: z.string().min(1).nullish(),
+  // When the session was played; queued writes may reach the server much later
+  startedAt: z.iso.datetime().optional(),
+  // Feedback delay multiplier of the player's settings, used when replaying the session
+  feedbackScale: z.number().positive().optional(),
+  // Played for the daily challenge
+  daily: z.boolean().optional()
+})
+
+export const updateSessionSchema = z.object({
+  score: z.number().int().min(0).optional(),
+  levelReached: z.number().int().min(1).optional(),
+  completed: z.boolean().optional(),
+  ended: z.boolean().optional(),
+  endedAt: z.iso.datetime().optional()
+})
+
+export const attemptSchema = z.object({
+  level: z.number().int().min(1),
+  action: z.unknown(),
+  result: z.enum(['correct', 'wrong']).nullish(),
+  item: z.string().max(64).nullish(),
+  points: z.number().int().default(0),
+  // Level the board was built for, when adaptive difficulty made it differ from `level`
+  boardLevel: z.number().int().min(1).optional(),
+  elapsedMs: z.number().int().min(0)
+})
+
+export const levelResultSchema = z.object({
+  level: z.number().int().min(1),
+  score: z.number().int().min(0),
+  attempts: z.number().int().min(0),
+  mistakes: z.number().int().min(0),
+  durationMs: z.number().int().min(0),
+  // 1-3 star rating of the level (see GameModule.rate)
+  stars: z.number().int().min(1).max(3),
+  // Times the game helped after repeated mistakes (see GameModule.assist)
+  assists: z.number().int().min(0).optional(),
+  // Hints the player asked for (see GameModule.hint)
+  hints: z.number().int().min(0).optional(),
+  // Level the board was built for; differs from `level` with adaptive difficulty
+  boardLevel: z.number().int().min(1)
+})
+
+export type CreateSessionInput = z.infer<typeof createSessionSchema>
+export type UpdateSessionInput = z.infer<typeof updateSessionSchema>
+export type AttemptInput = z.input<typeof attemptSchema>
+export type LevelResultInput = z.infer<typeof levelResultSchema>
@@ -0,0 +1,16 @@
+import { fetchJson } from '@/lib/fetch-json'
+import type { RecordedSession, SessionLog } from './schema'
+
+// Newest sessions first, of one profile or of everyone
+export async function fetchRecentSessions(profileId?: string) {
+  const params = new URLSearchParams()
+  if (profileId) params.set('profileId', profileId)
+
+  const { sessions } = await fetchJson<{ sessions: RecordedSession[] }>(`/api/sessions?${params}`)
+  return sessions
+}
+
+export async function fetchSessionLog(id: string) {
+  const { session } = await fetchJson<{ session: SessionLog }>(`/api/sessions/${id}`)
+  return session
+}
@@ -0,0 +1,92 @@
+import { ASSIST_ACTION, HINT_ACTION, type GameModule } from '@/components/games/types'
+import type { GameContent } from '@/lib/content/schema'
+import { createRng, deriveSeed, parseSeed } from '@/lib/rng'
+import type { SessionLog } from './schema'
+
+// Pause between two levels, like the level-complete modal in the game
+const LEVEL_GAP_MS = 1500
+
+export interface ReplayFrame {
+  // Time since the start of the replay
+  at: number
+  level: number
+  state: unknown
+  // Action that led to this board; missing when a level starts or a board settles
+  action?: unknown
+  result?: 'correct' | 'wrong' | null
+  // The game helped after repeated mistakes
+  assisted?: boolean
+  // The player asked for a hint
+  hinted?: boolean
+}
+
+interface PendingSettle {
+  at: number
+  // The board after the settle, from the board before it
+  apply: (state: unknown) => unknown
+}
+
+// Every board the player saw, rebuilt from the session seed and the logged actions.
+// Boards are built from the current content packs, so a session replays exactly as long as those haven't changed.
+export function buildReplayFrames(game: GameModule, content: GameContent, session: SessionLog): ReplayFrame[] {
+  const seed = parseSeed(session.seed) ?? 0
+  const frames: ReplayFrame[] = []
+  const playedLevels = [...new Set(session.attempts.map(attempt => attempt.level))].sort((a, b) => a - b)
+  let offset = 0
+
+  for (const level of playedLevels) {
+    const attempts = session.attempts
+      .filter(attempt => attempt.level === level)
+      .sort((a, b) => a.elapsedMs - b.elapsedMs)
+    const boardLevel = attempts[0].boardLevel ?? level
+    let state: unknown = game.init(boardLevel, content, createRng(deriveSeed(seed, game.id, level)))
+    let pending: PendingSettle[] = []
+    frames.push({ at: offset, level, state })
+
+    // Delayed transitions happen when they did in the game, before any later action
+    const settleUntil = (time: number) => {
+      for (const settle of pending.filter(settle => settle.at <= time)) {
+        state = settle.apply(state)
+        frames.push({ at: settle.at, level, state })
+      }
+      pending = pending.filter(settle => settle.at > time)
+    }
+    const addPending = (settle: PendingSettle) => {
+      pending = [...pending, settle].sort((a, b) => a.at - b.at)
+    }
+
+    for (const attempt of attempts) {
+      const at = offset + attempt.elapsedMs
+      settleUntil(at)
+
+      const action = JSON.parse(attempt.action)
+      if (action?.type === ASSIST_ACTION.type) {
+        state = game.assist?.apply(state, boardLevel) ?? state
+        frames.push({ at, level, state, assisted: true })
+        continue
+      }
+      if (action?.type === HINT_ACTION.type) {
+        state = game.hint?.apply(state, boardLevel) ?? state
+        frames.push({ at, level, state, hinted: true })
+        const clear = game.hint?.clear
+        if (clear) addPending({ at: at + clear.after * session.feedbackScale, apply: clear.state })
+        continue
+      }
+
+      const evaluation = game.evaluate(state, action, boardLevel)
+      state = evaluation.state
+      frames.push({ at, level, state, action, result: attempt.result })
+
+      const settled = evaluation.settle?.state
+      if (evaluation.settle && settled !== undefined) {
+        addPending({ at: at + evaluation.settle.after * session.feedbackScale, apply: () => settled })
+      }
+    }
+    settleUntil(Infinity)
+
+    const recorded = session.levels.find(result => result.level === level)?.durationMs ?? 0
+    offset = Math.max(offset + recorded, frames[frames.length - 1].at) + LEVEL_GAP_MS
+  }
+
+  return frames
+}
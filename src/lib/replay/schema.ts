@@ -0,0 +1,37 @@
+// Sessions as returned by the /api/sessions routes, for the parents' session list and the replay viewer
+
+export interface RecordedLevel {
+  level: number
+  // Level the board was built for
+  boardLevel: number
+  durationMs: number
+  stars: number
+}
+
+export interface RecordedSession {
+  id: string
+  gameId: string
+  seed: string
+  score: number
+  levelReached: number
+  completed: boolean
+  feedbackScale: number
+  startedAt: string
+  endedAt: string | null
+  levels: RecordedLevel[]
+}
+
+export interface RecordedAttempt {
+  level: number
+  // The GameModule action, as JSON
+  action: string
+  result: 'correct' | 'wrong' | null
+  // Level the board was built for, when adaptive difficulty made it differ from `level`
+  boardLevel: number | null
+  // Time since the level started
+  elapsedMs: number
+}
+
+export interface SessionLog extends RecordedSession {
+  attempts: RecordedAttempt[]
+}
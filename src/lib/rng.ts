@@ -0,0 +1,73 @@
+// Seedable random numbers, so a session (or a daily puzzle) can be reproduced exactly from its seed
+
+export type Random = () => number
+
+// mulberry32: small, fast and good enough for shuffling game boards
+export function createRng(seed: number): Random {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296) >>> 0
+}
+
+// Derives an independent seed, e.g. one per level of a session
+export function deriveSeed(seed: number, ...parts: Array<number | string>) {
+  return hashString([seed, ...parts].join(':'))
+}
+
+// FNV-1a, used to turn strings such as dates into seeds
+export function hashString(value: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Short code shown to parents so a session can be reported and replayed
+export const formatSeed = (seed: number) => seed.toString(36).toUpperCase()
+
+export const parseSeed = (code: string) => {
+  const seed = parseInt(code.trim(), 36)
+  return Number.isFinite(seed) ? seed >>> 0 : null
+}
+
+// Code of a played session: the seed, followed by the level each board was built for when adaptive
+// difficulty made them differ from the levels (e.g. "K3F9Z" or "K3F9Z-1.1.2")
+export const formatGameCode = (seed: number, boardLevels: number[]) =>
+  boardLevels.every((boardLevel, index) => boardLevel === index + 1)
+    ? formatSeed(seed)
+    : `${formatSeed(seed)}-${boardLevels.join('.')}`
+
+export const parseGameCode = (code: string) => {
+  const [seedCode, boards = ''] = code.trim().split('-')
+  const seed = parseSeed(seedCode)
+  if (seed === null) return null
+  const boardLevels = boards ? boards.split('.').map(Number) : []
+  return { seed, boardLevels: boardLevels.every(level => Number.isInteger(level) && level >= 1) ? boardLevels : [] }
+}
+
+export const randomInt = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1))
+
+export const pick = <T>(random: Random, items: T[]) => items[Math.floor(random() * items.length)]
+
+// Unbiased Fisher–Yates shuffle; returns a new array
+export function shuffle<T>(random: Random, items: T[]) {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+export const sample = <T>(random: Random, items: T[], count: number) => shuffle(random, items).slice(0, count)
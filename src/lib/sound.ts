@@ -0,0 +1,93 @@
+import { playPhrase, setMuted, type Instrument, type Note } from '@/lib/audio/engine'
+
+export type SoundType = 'correct' | 'wrong' | 'click' | 'win' | 'simon-green' | 'simon-red' | 'simon-yellow' | 'simon-blue'
+
+// Mirrors the soundEnabled setting of the active profile (applied by SettingsProvider)
+let soundEnabled = true
+
+export const isSoundEnabled = () => soundEnabled
+
+export const setSoundEnabled = (enabled: boolean) => {
+  soundEnabled = enabled
+  setMuted(!enabled)
+}
+
+// Mirrors the Simon tone settings (applied by SettingsProvider)
+let distinctSimonTones = false
+
+export const setDistinctSimonTones = (distinct: boolean) => {
+  distinctSimonTones = distinct
+}
+
+// Note frequencies (Hz)
+const C3 = 130.81
+const G3 = 196
+const C4 = 261.63
+const E4 = 329.63
+const G4 = 392
+const A4 = 440
+const C5 = 523.25
+const E5 = 659.25
+const G5 = 783.99
+const C6 = 1046.5
+
+const PLUCK: Instrument = { wave: 'triangle', envelope: { attack: 0.005, decay: 0.06, sustain: 0, release: 0.04 } }
+const BELL: Instrument = { wave: 'sine', envelope: { attack: 0.01, decay: 0.12, sustain: 0.4, release: 0.25 } }
+const SOFT: Instrument = { wave: 'triangle', envelope: { attack: 0.02, decay: 0.1, sustain: 0.5, release: 0.2 } }
+// Simon tones stay steady while the button is lit
+const PAD: Instrument = { wave: 'sine', envelope: { attack: 0.02, decay: 0.05, sustain: 0.8, release: 0.15 } }
+const REED: Instrument = { wave: 'square', envelope: { attack: 0.02, decay: 0.05, sustain: 0.6, release: 0.15 } }
+const BUZZ: Instrument = { wave: 'sawtooth', envelope: { attack: 0.02, decay: 0.05, sustain: 0.6, release: 0.15 } }
+
+const tone = (freq: number, duration: number, gain?: number): Note[] => [{ freq, at: 0, duration, gain }]
+
+const SOUNDS: Record<SoundType, { instrument: Instrument; notes: Note[] }> = {
+  click: { instrument: PLUCK, notes: tone(A4, 0.05, 0.2) },
+  // Quick rising arpeggio
+  correct: {
+    instrument: BELL,
+    notes: [
+      { freq: C5, at: 0, duration: 0.08 },
+      { freq: E5, at: 0.08, duration: 0.08 },
+      { freq: G5, at: 0.16, duration: 0.2 }
+    ]
+  },
+  // Gentle falling pair, so a mistake doesn't sound like a punishment
+  wrong: {
+    instrument: SOFT,
+    notes: [
+      { freq: E4, at: 0, duration: 0.12, gain: 0.2 },
+      { freq: C4, at: 0.14, duration: 0.25, gain: 0.2 }
+    ]
+  },
+  // Little fanfare ending on a held high C
+  win: {
+    instrument: BELL,
+    notes: [
+      { freq: C5, at: 0, duration: 0.1 },
+      { freq: E5, at: 0.12, duration: 0.1 },
+      { freq: G5, at: 0.24, duration: 0.1 },
+      { freq: E5, at: 0.36, duration: 0.08 },
+      { freq: G5, at: 0.46, duration: 0.08 },
+      { freq: C6, at: 0.56, duration: 0.5, gain: 0.35 }
+    ]
+  },
+  'simon-green': { instrument: PAD, notes: tone(E4, 0.35) },
+  'simon-red': { instrument: PAD, notes: tone(C4, 0.35) },
+  'simon-yellow': { instrument: PAD, notes: tone(G4, 0.35) },
+  'simon-blue': { instrument: PAD, notes: tone(A4, 0.35) }
+}
+
+// Simon tones for players who can't rely on colour: an octave or more apart, each with its own timbre
+const DISTINCT_SIMON_SOUNDS: Partial<Record<SoundType, { instrument: Instrument; notes: Note[] }>> = {
+  'simon-red': { instrument: BUZZ, notes: tone(C3, 0.35, 0.15) },
+  'simon-green': { instrument: REED, notes: tone(G3, 0.35, 0.15) },
+  'simon-yellow': { instrument: PAD, notes: tone(C5, 0.35) },
+  'simon-blue': { instrument: BELL, notes: tone(C6, 0.35, 0.25) }
+}
+
+export const playSound = (type: SoundType) => {
+  if (!soundEnabled) return
+  const { instrument, notes } = (distinctSimonTones && DISTINCT_SIMON_SOUNDS[type]) || SOUNDS[type]
+  playPhrase(notes, instrument, 'effects')
+}
@@ -0,0 +1,39 @@
+import { hashString } from '@/lib/rng'
+
+// Pre-rendered narration lives in public/audio/speech/<locale>/, indexed by manifest.json
+export const SPEECH_DIR = 'audio/speech'
+export const SPEECH_MANIFEST_URL = `/${SPEECH_DIR}/manifest.json`
+
+// Locale -> spoken text -> file name inside the locale folder
+export type SpeechManifest = Record<string, Record<string, string>>
+
+// Messages read aloud besides every game title (`games.<id>.title`) and the vocabulary words
+export const NARRATED_MESSAGES = [
+  'menu.title',
+  'profiles.title',
+  'games.find-pair.instructions',
+  'games.sequence.instructions',
+  'games.simon.watch',
+  'games.simon.yourTurn',
+  'games.different.correct',
+  'games.different.wrong',
+  'game.levelCompleteTitle',
+  'game.winTitle',
+  'tutorial.goals.memory',
+  'tutorial.goals.find-pair',
+  'tutorial.goals.pattern',
+  'tutorial.goals.different',
+  'tutorial.goals.sequence',
+  'tutorial.goals.simon',
+  'tutorial.yourTurn',
+  'tutorial.ready'
+]
+
+// Emoji and check marks are shown on screen but not read; the result is also the manifest key
+export const speechText = (text: string) =>
+  text
+    .replace(/[\p{Extended_Pictographic}\u2713\u2717\uFE0F\u200D]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+export const speechFileName = (text: string) => `${hashString(text).toString(36)}.mp3`
@@ -0,0 +1,61 @@
+import { getEffectiveVolume, playFile } from '@/lib/audio/engine'
+import { isSoundEnabled } from '@/lib/sound'
+import { SPEECH_DIR, SPEECH_MANIFEST_URL, speechText, type SpeechManifest } from './catalog'
+
+let manifest: Promise<SpeechManifest> | null = null
+let stopCurrent: (() => void) | null = null
+// Bumped on every speak and stop, so a call still loading its clip knows it was superseded
+let speechRequest = 0
+
+// Loaded once; a missing manifest (narration not generated yet) just means no recorded audio
+const loadManifest = () => {
+  manifest ??= fetch(SPEECH_MANIFEST_URL)
+    .then(response => (response.ok ? response.json() : {}))
+    .catch(error => {
+      console.error('Could not load the speech manifest:', error)
+      return {}
+    })
+  return manifest
+}
+
+export const stopSpeaking = () => {
+  speechRequest++
+  stopCurrent?.()
+  stopCurrent = null
+  if (typeof window !== 'undefined') window.speechSynthesis?.cancel()
+}
+
+// Reads a text aloud: the pre-rendered file when there is one, otherwise the browser voice
+export async function speak(text: string, locale: string) {
+  const spoken = speechText(text)
+  if (!spoken || !isSoundEnabled()) return
+
+  stopSpeaking()
+  const request = speechRequest
+  const file = (await loadManifest())[locale]?.[spoken]
+  if (request !== speechRequest) return
+  if (file) {
+    try {
+      // Another text may be asked for while this clip is loading
+      const isCurrent = () => request === speechRequest
+      const stop = await playFile(`/${SPEECH_DIR}/${locale}/${file}`, 'voice', isCurrent)
+      if (isCurrent()) stopCurrent = stop
+    } catch (error) {
+      console.error('Could not play narration:', error)
+    }
+    return
+  }
+
+  if ('speechSynthesis' in window) {
+    const utterance = new SpeechSynthesisUtterance(spoken)
+    utterance.lang = locale
+    utterance.rate = 0.9
+    utterance.volume = getEffectiveVolume('voice')
+    window.speechSynthesis.speak(utterance)
+  }
+}
+
+// Fetches the manifest ahead of time so the first tap plays without a delay
+export const preloadSpeech = () => {
+  void loadManifest()
+}
@@ -0,0 +1,12 @@
+import { fetchJson } from '@/lib/fetch-json'
+import type { DashboardStats } from './dashboard'
+
+export async function fetchDashboardStats(profileId?: string, days?: number) {
+  const params = new URLSearchParams()
+  if (profileId) params.set('profileId', profileId)
+  if (days) params.set('days', String(days))
+  params.set('tzOffset', String(new Date().getTimezoneOffset()))
+
+  const { stats } = await fetchJson<{ stats: DashboardStats }>(`/api/stats?${params}`)
+  return stats
+}
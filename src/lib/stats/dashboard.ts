@@ -0,0 +1,112 @@
+// Figures shown on the /parents dashboard, built from the stored sessions
+
+import { localDay } from '@/lib/dates'
+
+export interface SessionSummary {
+  gameId: string
+  levelReached: number
+  startedAt: Date
+  endedAt: Date | null
+  levels: Array<{ attempts: number; mistakes: number; durationMs: number; assists: number }>
+}
+
+export interface MissedAttempt {
+  gameId: string
+  item: string
+}
+
+// One row per day; every game played that day gets its accuracy (0–100) under its id
+export type AccuracyPoint = { date: string } & Record<string, number | string>
+
+export interface PlayTimePoint {
+  date: string
+  minutes: number
+}
+
+export interface LevelReached {
+  gameId: string
+  level: number
+}
+
+export interface MissedItem {
+  gameId: string
+  item: string
+  count: number
+}
+
+// Times a game helped after repeated mistakes
+export interface AssistCount {
+  gameId: string
+  count: number
+}
+
+export interface DashboardStats {
+  accuracy: AccuracyPoint[]
+  playTime: PlayTimePoint[]
+  levels: LevelReached[]
+  missed: MissedItem[]
+  assists: AssistCount[]
+}
+
+// Sessions left open (tab closed mid-game) have no end, so fall back to the time spent on finished levels
+const sessionDurationMs = (session: SessionSummary) =>
+  session.endedAt
+    ? session.endedAt.getTime() - session.startedAt.getTime()
+    : session.levels.reduce((total, level) => total + level.durationMs, 0)
+
+// Days are the parent's calendar days; `offsetMinutes` is their Date.getTimezoneOffset
+export function buildDashboardStats(
+  sessions: SessionSummary[],
+  missed: MissedAttempt[],
+  offsetMinutes: number,
+  missedLimit = 10
+): DashboardStats {
+  const answers = new Map<string, Record<string, { total: number; mistakes: number }>>()
+  const minutes = new Map<string, number>()
+  const levels = new Map<string, number>()
+  const assists = new Map<string, number>()
+
+  for (const session of sessions) {
+    const day = localDay(session.startedAt, offsetMinutes)
+
+    const perGame = answers.get(day) ?? {}
+    const totals = perGame[session.gameId] ??= { total: 0, mistakes: 0 }
+    for (const level of session.levels) {
+      totals.total += level.attempts
+      totals.mistakes += level.mistakes
+      if (level.assists > 0) assists.set(session.gameId, (assists.get(session.gameId) ?? 0) + level.assists)
+    }
+    answers.set(day, perGame)
+
+    minutes.set(day, (minutes.get(day) ?? 0) + sessionDurationMs(session) / 60000)
+    levels.set(session.gameId, Math.max(levels.get(session.gameId) ?? 0, session.levelReached))
+  }
+
+  const days = [...new Set([...answers.keys(), ...minutes.keys()])].sort()
+
+  const accuracy = days.map(date => {
+    const point: AccuracyPoint = { date }
+    for (const [gameId, totals] of Object.entries(answers.get(date) ?? {})) {
+      if (totals.total > 0) {
+        point[gameId] = Math.round(((totals.total - totals.mistakes) / totals.total) * 100)
+      }
+    }
+    return point
+  })
+
+  const counts = new Map<string, MissedItem>()
+  for (const { gameId, item } of missed) {
+    const key = `${gameId}:${item}`
+    const entry = counts.get(key) ?? { gameId, item, count: 0 }
+    entry.count += 1
+    counts.set(key, entry)
+  }
+
+  return {
+    accuracy,
+    playTime: days.map(date => ({ date, minutes: Math.round((minutes.get(date) ?? 0) * 10) / 10 })),
+    levels: [...levels].map(([gameId, level]) => ({ gameId, level })),
+    missed: [...counts.values()].sort((a, b) => b.count - a.count).slice(0, missedLimit),
+    assists: [...assists].map(([gameId, count]) => ({ gameId, count })).sort((a, b) => b.count - a.count)
+  }
+}
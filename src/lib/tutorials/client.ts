@@ -0,0 +1,12 @@
+import { fetchJson } from '@/lib/fetch-json'
+import { queueWrite } from '@/lib/offline/queue'
+import type { CompletedTutorials } from './schema'
+
+export async function fetchCompletedTutorials(profileId: string) {
+  const { completed } = await fetchJson<{ completed: CompletedTutorials }>(`/api/profiles/${profileId}/tutorials`)
+  return completed
+}
+
+export function saveCompletedTutorial(profileId: string, gameId: string, completedAt: string) {
+  queueWrite(`/api/profiles/${profileId}/tutorials`, 'POST', { gameId, completedAt })
+}
@@ -0,0 +1,12 @@
+import { z } from 'zod'
+
+export const completeTutorialSchema = z.object({
+  gameId: z.string().min(1).max(64),
+  // When it was finished; the write may have been queued while offline
+  completedAt: z.iso.datetime()
+})
+
+export type CompleteTutorialInput = z.infer<typeof completeTutorialSchema>
+
+// Game id -> ISO date its tutorial was finished
+export type CompletedTutorials = Record<string, string>